@@ -1,16 +1,24 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { ViewState, EditorState, TranslationKey, TranslationValue, Language, TokenUsageReport, TokenUsageDelta, TranslateAllEstimate } from './types';
+import { ViewState, EditorState, TranslationKey, TranslationValue, Language, ProjectInfo, CatalogInfo, SharedKey, CatalogDelta, ExternalConflict, FileError, HistoryGroup, HistoryKind, HistoryState, BulkAction, ReviewState, NeedsReviewState, QaRules, UsageScan, MissingKey, TokenUsageReport, TokenUsageDelta, TranslateAllEstimate } from './types';
 import { MOCK_KEYS, MOCK_VALUES, LANGUAGES } from './constants';
 import { APP_VERSION } from './appVersion';
 import Dashboard from './components/Dashboard';
 import TranslationList from './components/TranslationList';
 import TranslationEditor from './components/TranslationEditor';
+import PluralKeyEditor from './components/PluralKeyEditor';
 import Settings from './components/Settings';
-import { translateText } from './services/geminiService';
+import SharedKeys from './components/SharedKeys';
+import HistoryPanel from './components/HistoryPanel';
+import QaView from './components/QaView';
+import { RenameKeyOptions } from './components/RenameKeyModal';
+import { PlaceholderRepairError, PluralRepairError, translatePluralForms, translateText } from './services/geminiService';
+import { getPluralCategories } from './services/icu';
+import { expandKeyIds, findKeyRow, getMissingPluralForms, getPluralFormValues, groupPluralKeys, pluralFormKey } from './services/pluralKeys';
 import { I18nProvider, createTranslator } from './services/i18n';
 import { buildToonPrompt, estimateTokenCount } from './services/toonPrompt';
 import { estimateOpenAiCost } from './services/openAiPricing';
-import { LayoutDashboard, Globe, Settings as SettingsIcon, Menu, ChevronLeft, ChevronRight } from 'lucide-react';
+import { runQa } from './services/qa';
+import { LayoutDashboard, Globe, Settings as SettingsIcon, Menu, ChevronLeft, ChevronRight, ChevronDown, FolderOpen, Library, Layers, History, ClipboardCheck } from 'lucide-react';
 
 const getVsCodeApi = () => {
   if (typeof window === 'undefined') return null;
@@ -77,6 +85,12 @@ type TranslateAllJob = {
   targetLangCode: string;
   targetLangName: string;
   sourceLangName: string;
+  plural?: {
+    base: string;
+    sourceForms: Record<string, string>;
+    categories: string[];
+    missing: string[];
+  };
 };
 
 const collectTranslateAllJobs = (
@@ -92,6 +106,30 @@ const collectTranslateAllJobs = (
 
   const jobs: TranslateAllJob[] = [];
   for (const key of keys) {
+    if (key.plural) {
+      // Plural groups are translated as one request per language.
+      const sourceForms = getPluralFormValues(key.plural, values, sourceLangCode);
+      if (Object.keys(sourceForms).length === 0) continue;
+      for (const target of targets) {
+        const missing = getMissingPluralForms(key.plural, values, target.code);
+        if (missing.length === 0) continue;
+        jobs.push({
+          keyId: key.id,
+          keyName: key.plural.base,
+          sourceText: JSON.stringify(sourceForms),
+          targetLangCode: target.code,
+          targetLangName: target.name || target.code,
+          sourceLangName,
+          plural: {
+            base: key.plural.base,
+            sourceForms,
+            categories: getPluralCategories(target.code),
+            missing
+          }
+        });
+      }
+      continue;
+    }
     const sourceText = values[key.id]?.[sourceLangCode] || '';
     if (!sourceText.trim()) continue;
     for (const target of targets) {
@@ -116,9 +154,24 @@ const sleep = (ms: number) => new Promise(resolve => window.setTimeout(resolve,
 const App: React.FC = () => {
   const vscodeApi = useMemo(() => getVsCodeApi(), []);
   const saveTimers = useRef<Record<string, number>>({});
+  const pendingSaves = useRef<Record<string, string>>({});
+  // Languages of the last init, to tell languages the user filtered out from new ones.
+  const knownLangCodes = useRef<string[] | null>(null);
   // Global State
   const [keys, setKeys] = useState<TranslationKey[]>(vscodeApi ? [] : MOCK_KEYS);
   const [values, setValues] = useState<Record<string, TranslationValue>>(vscodeApi ? {} : MOCK_VALUES);
+  const [comments, setComments] = useState<Record<string, Record<string, string>>>({});
+  const [namespaces, setNamespaces] = useState<string[]>([]);
+  const [defaultNamespace, setDefaultNamespace] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [activeProject, setActiveProject] = useState<string | null>(null);
+  const [catalogs, setCatalogs] = useState<CatalogInfo[]>([]);
+  const [activeCatalog, setActiveCatalog] = useState<string | null>(null);
+  const [sharedKeys, setSharedKeys] = useState<SharedKey[]>([]);
+  const [externalConflicts, setExternalConflicts] = useState<ExternalConflict[]>([]);
+  const [fileErrors, setFileErrors] = useState<FileError[]>([]);
+  const [reviewed, setReviewed] = useState<ReviewState>({});
+  const [needsReview, setNeedsReview] = useState<NeedsReviewState>({});
   const [languages, setLanguages] = useState<Language[]>(vscodeApi ? [] : LANGUAGES);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [statusCode, setStatusCode] = useState<string | null>(null);
@@ -140,12 +193,18 @@ const App: React.FC = () => {
   const [openAiApiKey, setOpenAiApiKey] = useState<string>('');
   const [openAiModel, setOpenAiModel] = useState<string>('gpt-5-nano-2025-08-07');
   const [tokenReport, setTokenReport] = useState<TokenUsageReport>(EMPTY_TOKEN_REPORT);
+  const [qaRules, setQaRules] = useState<QaRules>({});
   const [i18nFolderName, setI18nFolderName] = useState<string>('i18n');
 
   // Computed
   const activeLanguages = languages.filter(l => activeLangCodes.includes(l.code));
+  const listKeys = useMemo(() => groupPluralKeys(keys), [keys]);
+  const qaFindings = useMemo(
+    () => runQa(listKeys, values, sourceLangCode, activeLanguages.map(lang => lang.code), qaRules),
+    [listKeys, values, sourceLangCode, activeLangCodes, languages, qaRules]
+  );
   const translateAllEstimate = useMemo<TranslateAllEstimate>(() => {
-    const jobs = collectTranslateAllJobs(keys, values, activeLanguages, sourceLangCode);
+    const jobs = collectTranslateAllJobs(listKeys, values, activeLanguages, sourceLangCode);
     if (jobs.length === 0) {
       return {
         missingCount: 0,
@@ -180,7 +239,7 @@ const App: React.FC = () => {
       totalTokens,
       cost: estimateOpenAiCost(promptTokens, completionTokens, openAiModel)
     };
-  }, [keys, values, activeLanguages, sourceLangCode, openAiModel]);
+  }, [listKeys, values, activeLanguages, sourceLangCode, openAiModel]);
   
   // Navigation State
   const [currentView, setCurrentView] = useState<ViewState>('dashboard');
@@ -190,10 +249,19 @@ const App: React.FC = () => {
   const [listSearchTerm, setListSearchTerm] = useState('');
   const [listSearchMode, setListSearchMode] = useState<'key' | 'content' | 'all'>('key');
   const [listCompletionSort, setListCompletionSort] = useState<'none' | 'asc' | 'desc'>('none');
+  const [listUsageFilter, setListUsageFilter] = useState<'all' | 'unused'>('all');
+  const [listPlaceholderFilter, setListPlaceholderFilter] = useState<'all' | 'issues'>('all');
+  const [usageScan, setUsageScan] = useState<UsageScan | null>(null);
+  const [isScanningUsages, setIsScanningUsages] = useState(false);
+  const [pendingOpenKey, setPendingOpenKey] = useState<string | null>(null);
+  const [pendingTranslationKeys, setPendingTranslationKeys] = useState<string[]>([]);
   const [listSelectedLang, setListSelectedLang] = useState('');
+  const [listNamespace, setListNamespace] = useState('');
   const [listViewMode, setListViewMode] = useState<'single' | 'grid'>('single');
   const [listQuickEditMode, setListQuickEditMode] = useState(false);
   const [listCurrentPage, setListCurrentPage] = useState(1);
+  const [history, setHistory] = useState<HistoryState>({ entries: [], position: 0 });
+  const [historyKeyFilter, setHistoryKeyFilter] = useState('');
 
   // Handlers
   const handleEdit = (keyId: string, langCode: string) => {
@@ -201,15 +269,20 @@ const App: React.FC = () => {
     setCurrentView('editor');
   };
 
+  const catalogTarget = { project: activeProject, catalog: activeCatalog };
+
   const scheduleSave = (keyId: string, langCode: string, newValue: string) => {
     if (!vscodeApi) return;
     const timerKey = `${keyId}:${langCode}`;
     if (saveTimers.current[timerKey]) {
       window.clearTimeout(saveTimers.current[timerKey]);
     }
+    const target = catalogTarget;
+    pendingSaves.current[timerKey] = newValue;
     saveTimers.current[timerKey] = window.setTimeout(() => {
-      vscodeApi?.postMessage({ type: 'updateValue', key: keyId, lang: langCode, value: newValue });
+      vscodeApi?.postMessage({ type: 'updateValue', key: keyId, lang: langCode, value: newValue, ...target });
       delete saveTimers.current[timerKey];
+      delete pendingSaves.current[timerKey];
     }, 400);
   };
 
@@ -218,15 +291,127 @@ const App: React.FC = () => {
       if (!timerKey.startsWith(`${keyId}:`)) return;
       window.clearTimeout(saveTimers.current[timerKey]);
       delete saveTimers.current[timerKey];
+      delete pendingSaves.current[timerKey];
+    });
+  };
+
+  const applyExternalChange = (delta: CatalogDelta) => {
+    const conflicts: ExternalConflict[] = [];
+    const updates = delta.updated.filter(change => {
+      const local = pendingSaves.current[`${change.key}:${change.lang}`];
+      if (local === undefined || local === change.value) return true;
+      conflicts.push({ key: change.key, lang: change.lang, local, incoming: change.value });
+      return false;
+    });
+
+    delta.removed.forEach(clearPendingSavesForKey);
+    setKeys(prev => {
+      const remaining = prev.filter(key => !delta.removed.includes(key.id));
+      const existing = new Set(remaining.map(key => key.id));
+      const added = delta.added
+        .filter(key => !existing.has(key))
+        .map(key => ({ id: key, key, tags: [] }));
+      return [...remaining, ...added];
+    });
+    setValues(prev => {
+      const next = { ...prev };
+      delta.removed.forEach(key => {
+        delete next[key];
+      });
+      updates.forEach(change => {
+        next[change.key] = { ...next[change.key], [change.lang]: change.value };
+      });
+      return next;
+    });
+    if (conflicts.length > 0) {
+      setExternalConflicts(prev => [
+        ...prev.filter(item => !conflicts.some(conflict => conflict.key === item.key && conflict.lang === item.lang)),
+        ...conflicts
+      ]);
+    }
+  };
+
+  const handleUseDiskVersion = () => {
+    externalConflicts.forEach(conflict => {
+      const timerKey = `${conflict.key}:${conflict.lang}`;
+      window.clearTimeout(saveTimers.current[timerKey]);
+      delete saveTimers.current[timerKey];
+      delete pendingSaves.current[timerKey];
+      setValues(prev => ({
+        ...prev,
+        [conflict.key]: { ...prev[conflict.key], [conflict.lang]: conflict.incoming }
+      }));
+      vscodeApi?.postMessage({
+        type: 'updateValue',
+        key: conflict.key,
+        lang: conflict.lang,
+        value: conflict.incoming,
+        ...catalogTarget
+      });
+    });
+    setExternalConflicts([]);
+  };
+
+  const lockedLangCodes = useMemo(() => fileErrors.map(error => error.lang), [fileErrors]);
+
+  const unmarkReviewed = (keyId: string, langCode: string) => {
+    setReviewed(prev => {
+      if (!prev[keyId]?.includes(langCode)) return prev;
+      return { ...prev, [keyId]: prev[keyId].filter(code => code !== langCode) };
+    });
+  };
+
+  const markNeedsReview = (keyId: string, langCode: string, suggestion: string) => {
+    setNeedsReview(prev => ({ ...prev, [keyId]: { ...prev[keyId], [langCode]: suggestion } }));
+  };
+
+  const clearNeedsReview = (keyId: string, langCode: string) => {
+    setNeedsReview(prev => {
+      if (prev[keyId]?.[langCode] === undefined) return prev;
+      const { [langCode]: _removed, ...rest } = prev[keyId];
+      const next = { ...prev };
+      if (Object.keys(rest).length > 0) next[keyId] = rest;
+      else delete next[keyId];
+      return next;
     });
   };
 
+  // AI output that still breaks placeholders after the repair attempts is parked
+  // as "needs review" instead of being written.
+  const translateOrPark = (keyId: string, langCode: string, request: Promise<string>) =>
+    request.catch(error => {
+      if (!(error instanceof PlaceholderRepairError)) throw error;
+      markNeedsReview(keyId, langCode, error.translation);
+      return null;
+    });
+
+  const translateFormsOrPark = (base: string, langCode: string, request: Promise<Record<string, string>>) =>
+    request.catch(error => {
+      if (!(error instanceof PluralRepairError)) throw error;
+      Object.entries(error.broken).forEach(([category, suggestion]) => {
+        markNeedsReview(pluralFormKey(base, category), langCode, suggestion);
+      });
+      return error.intact;
+    });
+
+  // Plural forms a language needs may not exist in the catalog yet.
+  const ensureKey = (keyId: string) => {
+    setKeys(prev => (prev.some(key => key.id === keyId) ? prev : [...prev, { id: keyId, key: keyId, tags: [] }]));
+  };
+
   const handleSave = (
     keyId: string,
     langCode: string,
     newValue: string,
-    options?: { stay?: boolean }
+    options?: { stay?: boolean; group?: HistoryGroup }
   ) => {
+    if (lockedLangCodes.includes(langCode)) {
+      alert(t('errors.fileLocked', { lang: langCode }));
+      return;
+    }
+    ensureKey(keyId);
+    unmarkReviewed(keyId, langCode);
+    clearNeedsReview(keyId, langCode);
     setValues(prev => ({
       ...prev,
       [keyId]: {
@@ -234,7 +419,14 @@ const App: React.FC = () => {
         [langCode]: newValue
       }
     }));
-    vscodeApi?.postMessage({ type: 'updateValue', key: keyId, lang: langCode, value: newValue });
+    vscodeApi?.postMessage({
+      type: 'updateValue',
+      key: keyId,
+      lang: langCode,
+      value: newValue,
+      group: options?.group,
+      ...catalogTarget
+    });
     // Note: If saving from editor view, we switch back. 
     // If saving inline from list, we don't change view.
     if (currentView === 'editor' && !options?.stay) {
@@ -243,6 +435,10 @@ const App: React.FC = () => {
   };
 
   const handleInlineUpdate = (keyId: string, langCode: string, newValue: string) => {
+    if (lockedLangCodes.includes(langCode)) return;
+    ensureKey(keyId);
+    unmarkReviewed(keyId, langCode);
+    clearNeedsReview(keyId, langCode);
     setValues(prev => ({
       ...prev,
       [keyId]: {
@@ -261,13 +457,48 @@ const App: React.FC = () => {
   };
 
   const handleInitializeI18n = () => {
-    vscodeApi?.postMessage({ type: 'initI18n' });
+    vscodeApi?.postMessage({ type: 'initI18n', ...catalogTarget });
+  };
+
+  const resetCatalogView = () => {
+    setEditorState({ keyId: null, targetLang: '' });
+    if (currentView === 'editor') {
+      setCurrentView('list');
+    }
+    setListNamespace('');
+    setListCurrentPage(1);
+    setNeedsReview({});
+  };
+
+  const handleSelectProject = (projectId: string) => {
+    if (projectId === activeProject) return;
+    resetCatalogView();
+    vscodeApi?.postMessage({ type: 'selectProject', project: projectId });
+  };
+
+  const handleSelectCatalog = (catalogId: string) => {
+    if (catalogId === activeCatalog) return;
+    resetCatalogView();
+    vscodeApi?.postMessage({ type: 'selectCatalog', catalog: catalogId });
+  };
+
+  const handleOpenSharedKey = (catalogId: string, key: string) => {
+    handleSelectCatalog(catalogId);
+    setListSearchTerm(key);
+    setListSearchMode('key');
+    setCurrentView('list');
+  };
+
+  const resolveNamespacedKey = (keyName: string) => {
+    if (namespaces.length === 0 || keyName.includes(':')) return keyName;
+    const namespace = listNamespace || defaultNamespace;
+    return namespace ? `${namespace}:${keyName}` : keyName;
   };
 
   const addKeyInternal = (
     keyName: string,
     initialValue: string,
-    options?: { silent?: boolean }
+    options?: { silent?: boolean; group?: HistoryGroup }
   ) => {
     if (keys.some(k => k.key === keyName)) {
       if (!options?.silent) {
@@ -290,15 +521,27 @@ const App: React.FC = () => {
         [sourceLangCode]: initialValue
       }
     }));
-    vscodeApi?.postMessage({ type: 'addKey', key: keyName, sourceLang: sourceLangCode, value: initialValue });
+    vscodeApi?.postMessage({
+      type: 'addKey',
+      key: keyName,
+      sourceLang: sourceLangCode,
+      value: initialValue,
+      group: options?.group,
+      ...catalogTarget
+    });
     return true;
   };
 
   const handleAddKey = (keyName: string, initialValue: string) => {
-    addKeyInternal(keyName, initialValue);
+    addKeyInternal(resolveNamespacedKey(keyName), initialValue);
   };
 
   const handleDeleteKey = (keyId: string) => {
+    if (listKeys.find(key => key.id === keyId)?.plural) {
+      handleBulkAction([keyId], { kind: 'delete' });
+      if (editorState.keyId === keyId) setCurrentView('list');
+      return;
+    }
     clearPendingSavesForKey(keyId);
     setKeys(prev => prev.filter(key => key.id !== keyId));
     setValues(prev => {
@@ -313,7 +556,220 @@ const App: React.FC = () => {
       setCurrentView('list');
     }
 
-    vscodeApi?.postMessage({ type: 'deleteKey', key: keyId });
+    vscodeApi?.postMessage({ type: 'deleteKey', key: keyId, ...catalogTarget });
+  };
+
+  const handleRenameKey = (from: string, to: string, options: RenameKeyOptions) => {
+    if (!options.subtree && keys.some(key => key.id === to)) {
+      alert(t('errors.keyExists'));
+      return;
+    }
+    keys
+      .filter(key => key.id === from || (options.subtree && key.id.startsWith(`${from}.`)))
+      .forEach(key => clearPendingSavesForKey(key.id));
+    if (editorState.keyId === from) {
+      setEditorState({ keyId: null, targetLang: '' });
+    }
+    vscodeApi?.postMessage({ type: 'renameKey', from, to, ...options, ...catalogTarget });
+  };
+
+  const handleDuplicateKey = (from: string, to: string, clearTargets: boolean) => {
+    const namespace = from.includes(':') ? from.slice(0, from.indexOf(':')) : '';
+    const newKey = namespace && !to.includes(':') ? `${namespace}:${to}` : to;
+    if (keys.some(key => key.id === newKey)) {
+      alert(t('errors.keyExists'));
+      return;
+    }
+    const copied = Object.fromEntries(
+      Object.entries(values[from] || {}).map(([lang, value]) => [
+        lang,
+        clearTargets && lang !== sourceLangCode ? '' : value
+      ])
+    );
+    setKeys(prev => [...prev, { id: newKey, key: newKey, tags: [] }]);
+    setValues(prev => ({ ...prev, [newKey]: copied }));
+    vscodeApi?.postMessage({
+      type: 'duplicateKey',
+      from,
+      to: newKey,
+      sourceLang: sourceLangCode,
+      clearTargets,
+      ...catalogTarget
+    });
+    if (currentView === 'editor') {
+      setEditorState(prev => ({ keyId: newKey, targetLang: prev.targetLang }));
+    }
+  };
+
+  const handleBulkAction = (rowIds: string[], action: BulkAction) => {
+    const keyIds = expandKeyIds(listKeys, rowIds);
+    if (keyIds.length === 0) return;
+    const targetCodes = activeLanguages.filter(lang => lang.code !== sourceLangCode).map(lang => lang.code);
+
+    if (action.kind === 'delete' || action.kind === 'move') {
+      keyIds.forEach(clearPendingSavesForKey);
+      if (editorState.keyId && keyIds.includes(editorState.keyId)) {
+        setEditorState({ keyId: null, targetLang: '' });
+      }
+    }
+    if (action.kind === 'delete') {
+      setKeys(prev => prev.filter(key => !keyIds.includes(key.id)));
+      setValues(prev => {
+        const next = { ...prev };
+        keyIds.forEach(keyId => {
+          delete next[keyId];
+        });
+        return next;
+      });
+    }
+    if (action.kind === 'clear') {
+      if (lockedLangCodes.includes(action.lang)) {
+        alert(t('errors.fileLocked', { lang: action.lang }));
+        return;
+      }
+      setValues(prev => {
+        const next = { ...prev };
+        keyIds.forEach(keyId => {
+          next[keyId] = { ...next[keyId], [action.lang]: '' };
+        });
+        return next;
+      });
+    }
+
+    const operation = action.kind === 'review' ? { kind: 'review', langs: targetCodes } : action;
+    vscodeApi?.postMessage({ type: 'batch', keys: keyIds, operation, ...catalogTarget });
+  };
+
+  const handleScanUsages = () => {
+    setIsScanningUsages(true);
+    vscodeApi?.postMessage({ type: 'scanUsages', ...catalogTarget });
+  };
+
+  const handleCreateMissingKeys = (missing: MissingKey[]) => {
+    const group: HistoryGroup | undefined =
+      missing.length > 1 ? { id: `missingKeys:${Date.now()}`, kind: 'addKey' } : undefined;
+    missing.forEach(item => {
+      const keyName = namespaces.length === 0 || item.key.includes(':') || !defaultNamespace
+        ? item.key
+        : `${defaultNamespace}:${item.key}`;
+      addKeyInternal(keyName, item.defaultValue ?? '', { silent: true, group });
+    });
+  };
+
+  const handleOpenReference = (missing: MissingKey) => {
+    vscodeApi?.postMessage({ type: 'openFile', filePath: missing.filePath, line: missing.line, column: missing.column });
+  };
+
+  const handleDeleteUnused = (rowIds: string[]) => {
+    const keyIds = expandKeyIds(listKeys, rowIds);
+    if (keyIds.length === 0) return;
+    keyIds.forEach(clearPendingSavesForKey);
+    vscodeApi?.postMessage({ type: 'deleteUnusedKeys', keys: keyIds, ...catalogTarget });
+  };
+
+  // Writes several cells as one batch, i.e. one undo step labelled `history`.
+  const writeValues = (results: Array<{ key: string; lang: string; value: string }>, history: HistoryKind) => {
+    results.forEach(result => ensureKey(result.key));
+    setValues(prev => {
+      const next = { ...prev };
+      results.forEach(result => {
+        next[result.key] = { ...next[result.key], [result.lang]: result.value };
+      });
+      return next;
+    });
+    results.forEach(result => {
+      unmarkReviewed(result.key, result.lang);
+      clearNeedsReview(result.key, result.lang);
+    });
+    vscodeApi?.postMessage({
+      type: 'batch',
+      keys: Array.from(new Set(results.map(result => result.key))),
+      operation: { kind: 'setValues', values: results, history },
+      ...catalogTarget
+    });
+  };
+
+  const handleApplyQaFixes = (fixes: Array<{ key: string; lang: string; value: string }>) => {
+    const writable = fixes.filter(fix => !lockedLangCodes.includes(fix.lang));
+    if (writable.length > 0) writeValues(writable, 'qaFix');
+  };
+
+  const handleBulkTranslate = async (
+    keyIds: string[],
+    langCodes: string[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<{ ok: boolean; error?: string }> => {
+    if (!openAiApiKey) {
+      return { ok: false, error: t('errors.openAiKeyMissing') };
+    }
+
+    const selectedKeys = listKeys.filter(key => keyIds.includes(key.id));
+    const targets = activeLanguages.filter(lang => langCodes.includes(lang.code) && !lockedLangCodes.includes(lang.code));
+    const sourceName = activeLanguages.find(lang => lang.code === sourceLangCode)?.name || sourceLangCode;
+    const jobs = selectedKeys.flatMap(key => {
+      const sourceText = key.plural
+        ? JSON.stringify(getPluralFormValues(key.plural, values, sourceLangCode))
+        : values[key.id]?.[sourceLangCode] || '';
+      if (!sourceText.trim() || sourceText === '{}') return [];
+      return targets.map(lang => ({ key, lang, sourceText }));
+    });
+    if (jobs.length === 0) {
+      return { ok: false, error: t('bulk.nothingToTranslate') };
+    }
+
+    const results: Array<{ key: string; lang: string; value: string }> = [];
+    let failed = false;
+    onProgress?.(0, jobs.length);
+
+    for (let index = 0; index < jobs.length; index += 1) {
+      const job = jobs[index];
+      const aiOptions = {
+        openAiApiKey,
+        openAiModel,
+        targetLangCode: job.lang.code,
+        onUsage: handleRecordTokenUsage
+      };
+      try {
+        if (job.key.plural) {
+          const plural = job.key.plural;
+          const forms = await translateFormsOrPark(plural.base, job.lang.code, translatePluralForms(
+            JSON.parse(job.sourceText),
+            getPluralCategories(job.lang.code),
+            job.lang.name || job.lang.code,
+            sourceName,
+            plural.base,
+            aiOptions
+          ));
+          Object.entries(forms).forEach(([category, value]) => {
+            results.push({ key: pluralFormKey(plural.base, category), lang: job.lang.code, value });
+          });
+        } else {
+          const translated = await translateOrPark(job.key.id, job.lang.code, translateText(
+            job.sourceText,
+            job.lang.name || job.lang.code,
+            sourceName,
+            job.key.key,
+            aiOptions
+          ));
+          if (translated !== null) {
+            results.push({ key: job.key.id, lang: job.lang.code, value: translated });
+          }
+        }
+      } catch (error) {
+        failed = true;
+        break;
+      }
+      onProgress?.(index + 1, jobs.length);
+      if (index < jobs.length - 1) {
+        await sleep(300);
+      }
+    }
+
+    if (results.length > 0) {
+      writeValues(results, 'bulkTranslate');
+    }
+
+    return failed ? { ok: false, error: t('errors.translationFailed') } : { ok: true };
   };
 
   const handleQuickAdd = async (
@@ -325,13 +781,15 @@ const App: React.FC = () => {
     if (!trimmedKey) {
       return { ok: false, error: t('errors.keyRequired') };
     }
+    const resolvedKey = resolveNamespacedKey(trimmedKey);
 
     const targets = activeLanguages.filter(lang => lang.code !== sourceLangCode);
     if (targets.length > 0 && !openAiApiKey) {
       return { ok: false, error: t('errors.openAiKeyMissing') };
     }
 
-    if (!addKeyInternal(trimmedKey, sourceValue, { silent: true })) {
+    const group: HistoryGroup = { id: `quickAdd:${resolvedKey}:${Date.now()}`, kind: 'quickAdd' };
+    if (!addKeyInternal(resolvedKey, sourceValue, { silent: true, group })) {
       return { ok: false, error: t('errors.keyExists') };
     }
 
@@ -345,19 +803,21 @@ const App: React.FC = () => {
 
     for (const lang of targets) {
       try {
-        const translated = await translateText(
+        const translated = await translateOrPark(resolvedKey, lang.code, translateText(
           sourceValue,
           lang.name || lang.code,
           sourceName,
-          trimmedKey,
+          resolvedKey,
           {
             openAiApiKey,
             openAiModel,
             targetLangCode: lang.code,
             onUsage: handleRecordTokenUsage
           }
-        );
-        handleSave(trimmedKey, lang.code, translated, { stay: true });
+        ));
+        if (translated !== null) {
+          handleSave(resolvedKey, lang.code, translated, { stay: true, group });
+        }
       } catch (error) {
         return { ok: false, error: t('errors.translationFailed') };
       } finally {
@@ -376,31 +836,52 @@ const App: React.FC = () => {
       return { ok: false, error: t('errors.openAiKeyMissing') };
     }
 
-    const jobs = collectTranslateAllJobs(keys, values, activeLanguages, sourceLangCode);
+    const jobs = collectTranslateAllJobs(listKeys, values, activeLanguages, sourceLangCode);
     if (jobs.length === 0) {
       return { ok: false, error: t('translateAll.noMissing') };
     }
 
+    const group: HistoryGroup = { id: `translateAll:${Date.now()}`, kind: 'translateAll' };
     let done = 0;
     onProgress?.(done, jobs.length);
 
     for (let index = 0; index < jobs.length; index += 1) {
       const job = jobs[index];
+      const aiOptions = {
+        openAiApiKey,
+        openAiModel,
+        targetLangCode: job.targetLangCode,
+        onUsage: handleRecordTokenUsage
+      };
       try {
-        const translated = await translateText(
-          job.sourceText,
-          job.targetLangName,
-          job.sourceLangName,
-          job.keyName,
-          {
-            openAiApiKey,
-            openAiModel,
-            targetLangCode: job.targetLangCode,
-            onUsage: handleRecordTokenUsage
+        if (job.plural) {
+          const plural = job.plural;
+          const forms = await translateFormsOrPark(plural.base, job.targetLangCode, translatePluralForms(
+            plural.sourceForms,
+            plural.categories,
+            job.targetLangName,
+            job.sourceLangName,
+            job.keyName,
+            aiOptions
+          ));
+          // Only fill the forms that are empty; existing forms stay untouched.
+          plural.missing.forEach(category => {
+            if (forms[category] === undefined) return;
+            handleSave(pluralFormKey(plural.base, category), job.targetLangCode, forms[category], { stay: true, group });
+          });
+        } else {
+          const translated = await translateOrPark(job.keyId, job.targetLangCode, translateText(
+            job.sourceText,
+            job.targetLangName,
+            job.sourceLangName,
+            job.keyName,
+            aiOptions
+          ));
+
+          if (translated !== null) {
+            handleSave(job.keyId, job.targetLangCode, translated, { stay: true, group });
           }
-        );
-
-        handleSave(job.keyId, job.targetLangCode, translated, { stay: true });
+        }
       } catch (error) {
         return { ok: false, error: t('errors.translationFailed') };
       } finally {
@@ -416,9 +897,47 @@ const App: React.FC = () => {
     return { ok: true };
   };
 
+  const handleUndo = () => {
+    vscodeApi?.postMessage({ type: 'undo' });
+  };
+
+  const handleRedo = () => {
+    vscodeApi?.postMessage({ type: 'redo' });
+  };
+
+  const handleShowKeyHistory = (keyId: string) => {
+    setHistoryKeyFilter(keyId);
+    setCurrentView('history');
+  };
+
+  const handleOpenHistoryKey = (keyId: string) => {
+    if (!keys.some(key => key.id === keyId)) return;
+    handleEdit(keyId, editorState.targetLang || sourceLangCode);
+  };
+
+  useEffect(() => {
+    if (!pendingOpenKey || !keys.some(key => key.id === pendingOpenKey)) return;
+    const target = activeLanguages.find(lang => lang.code !== sourceLangCode)?.code || sourceLangCode;
+    handleEdit(pendingOpenKey, target);
+    setPendingOpenKey(null);
+  }, [pendingOpenKey, keys, activeLanguages, sourceLangCode]);
+
+  useEffect(() => {
+    if (pendingTranslationKeys.length === 0 || !openAiApiKey) return;
+    const ready = pendingTranslationKeys.filter(keyId => keys.some(key => key.id === keyId));
+    if (ready.length === 0) return;
+    setPendingTranslationKeys(prev => prev.filter(keyId => !ready.includes(keyId)));
+    const targets = activeLanguages
+      .filter(lang => lang.code !== sourceLangCode && !lockedLangCodes.includes(lang.code))
+      .map(lang => lang.code);
+    handleBulkTranslate(ready, targets).then(result => {
+      if (!result.ok && result.error) alert(result.error);
+    });
+  }, [pendingTranslationKeys, keys, openAiApiKey]);
+
   const handleAddLanguage = (code: string, name?: string) => {
     if (vscodeApi) {
-      vscodeApi.postMessage({ type: 'addLanguage', lang: code });
+      vscodeApi.postMessage({ type: 'addLanguage', lang: code, ...catalogTarget });
       return;
     }
 
@@ -465,32 +984,104 @@ const App: React.FC = () => {
           languages: Language[];
           keys: TranslationKey[];
           values: Record<string, TranslationValue>;
+          comments?: Record<string, Record<string, string>>;
+          namespaces?: string[];
+          defaultNamespace?: string | null;
+          projects?: ProjectInfo[];
+          activeProject?: string | null;
+          catalogs?: CatalogInfo[];
+          activeCatalog?: string | null;
+          sharedKeys?: SharedKey[];
+          fileErrors?: FileError[];
+          reviewed?: ReviewState;
           sourceLangCode?: string;
           openaiApiKey?: string;
           openaiModel?: string;
           tokenReport?: TokenUsageReport;
+          qaRules?: QaRules;
           locale?: string;
           i18nFolder?: string;
           status?: string;
           error?: string;
         };
 
+        // Unsaved cells keep their local value; the ones that changed on disk become conflicts.
+        const nextValues = { ...(payload.values || {}) };
+        const conflicts: ExternalConflict[] = [];
+        Object.entries(pendingSaves.current).forEach(([timerKey, local]) => {
+          const separator = timerKey.lastIndexOf(':');
+          const key = timerKey.slice(0, separator);
+          const lang = timerKey.slice(separator + 1);
+          if (!nextValues[key]) return;
+          const incoming = nextValues[key][lang] ?? '';
+          if (incoming === local) return;
+          nextValues[key] = { ...nextValues[key], [lang]: local };
+          conflicts.push({ key, lang, local, incoming });
+        });
+
         setLanguages(payload.languages || []);
         setKeys(payload.keys || []);
-        setValues(payload.values || {});
+        setValues(nextValues);
+        setComments(payload.comments || {});
+        setNamespaces(payload.namespaces || []);
+        setDefaultNamespace(payload.defaultNamespace || null);
+        setProjects(payload.projects || []);
+        setActiveProject(payload.activeProject || null);
+        setCatalogs(payload.catalogs || []);
+        setActiveCatalog(payload.activeCatalog || null);
+        setSharedKeys(payload.sharedKeys || []);
+        setExternalConflicts(prev => [
+          ...prev.filter(
+            item =>
+              nextValues[item.key] &&
+              !conflicts.some(conflict => conflict.key === item.key && conflict.lang === item.lang)
+          ),
+          ...conflicts
+        ]);
+        setFileErrors(payload.fileErrors || []);
+        setReviewed(payload.reviewed || {});
 
         const codes = (payload.languages || []).map(lang => lang.code);
-        setActiveLangCodes(codes);
+        const known = knownLangCodes.current;
+        knownLangCodes.current = codes;
+        // Keep the language filter: hide what was hidden, show languages that are new.
+        setActiveLangCodes(prev => {
+          if (known === null) return codes;
+          const active = codes.filter(code => prev.includes(code) || !known.includes(code));
+          return active.length > 0 ? active : codes;
+        });
         setSourceLangCode(payload.sourceLangCode || codes[0] || 'en');
         setOpenAiApiKey(payload.openaiApiKey || '');
         setOpenAiModel(payload.openaiModel || 'gpt-5-nano-2025-08-07');
         setTokenReport(payload.tokenReport || EMPTY_TOKEN_REPORT);
+        setQaRules(payload.qaRules || {});
         setLocale(payload.locale || (typeof navigator !== 'undefined' ? navigator.language : 'en'));
         setI18nFolderName(payload.i18nFolder || 'i18n');
         setStatusMessage(payload.error || null);
         setStatusCode(payload.status || null);
       }
 
+      if (message.type === 'translateKeys' && Array.isArray(message.keys)) {
+        setPendingTranslationKeys(prev => Array.from(new Set([...prev, ...message.keys])));
+      }
+
+      if (message.type === 'openKey' && typeof message.key === 'string') {
+        setPendingOpenKey(message.key);
+      }
+
+      if (message.type === 'usageScan') {
+        if (message.payload) setUsageScan(message.payload as UsageScan);
+        setIsScanningUsages(false);
+      }
+
+      if (message.type === 'history' && message.payload) {
+        setHistory(message.payload as HistoryState);
+      }
+
+      if (message.type === 'externalChange' && message.payload) {
+        applyExternalChange(message.payload as CatalogDelta);
+      }
+
       if (message.type === 'theme') {
         setIsDarkMode(Boolean(message.isDark));
       }
@@ -505,6 +1096,28 @@ const App: React.FC = () => {
     return () => window.removeEventListener('message', handleMessage);
   }, [vscodeApi]);
 
+  useEffect(() => {
+    if (!vscodeApi) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        vscodeApi.postMessage({ type: 'undo' });
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        vscodeApi.postMessage({ type: 'redo' });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [vscodeApi]);
+
   const handleSetSourceLanguage = (code: string) => {
     setSourceLangCode(code);
     // Ensure new source is active
@@ -524,11 +1137,18 @@ const App: React.FC = () => {
     vscodeApi?.postMessage({ type: 'updateConfig', key: 'openaiModel', value, scope: 'workspace' });
   };
 
+  const handleQaRulesChange = (next: QaRules) => {
+    setQaRules(next);
+    vscodeApi?.postMessage({ type: 'updateConfig', key: 'qa', value: next, scope: 'workspace' });
+  };
+
   const handleRecordTokenUsage = (usage: TokenUsageDelta) => {
     setTokenReport(prev => applyTokenUsage(prev, usage));
     vscodeApi?.postMessage({ type: 'recordTokenUsage', usage });
   };
 
+  const editorKey = editorState.keyId ? findKeyRow(listKeys, editorState.keyId) : undefined;
+
   const statusText = useMemo(() => {
     if (!statusCode) return statusMessage;
     if (statusCode === 'missingWorkspace') {
@@ -540,8 +1160,11 @@ const App: React.FC = () => {
     if (statusCode === 'emptyFolder') {
       return t('app.status.emptyFolder');
     }
+    if (statusCode === 'invalidFiles') {
+      return t('app.status.invalidFiles', { count: fileErrors.length });
+    }
     return statusMessage;
-  }, [statusCode, statusMessage, t, i18nFolderName]);
+  }, [statusCode, statusMessage, t, i18nFolderName, fileErrors.length]);
 
   const NavItem = ({ view, icon: Icon, label }: { view: ViewState, icon: any, label: string }) => (
     <button
@@ -561,6 +1184,53 @@ const App: React.FC = () => {
     </button>
   );
 
+  const SidebarPicker = ({
+    icon: Icon,
+    label,
+    value,
+    options,
+    onChange
+  }: {
+    icon: any;
+    label: string;
+    value: string | null;
+    options: Array<{ id: string; label: string }>;
+    onChange: (id: string) => void;
+  }) => (
+    <div className={`border-b border-gray-100 dark:border-gray-700 ${isSidebarCollapsed ? 'p-2 flex justify-center' : 'p-4'}`}>
+      {isSidebarCollapsed ? (
+        <button
+          type="button"
+          onClick={() => setIsSidebarCollapsed(false)}
+          className="p-2 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800"
+          title={options.find(option => option.id === value)?.label || label}
+        >
+          <Icon className="w-5 h-5" />
+        </button>
+      ) : (
+        <>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500 mb-2">
+            {label}
+          </label>
+          <div className="relative">
+            <select
+              value={value || ''}
+              onChange={(e) => onChange(e.target.value)}
+              className="w-full appearance-none bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 py-2 pl-3 pr-8 rounded-lg leading-tight focus:outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-sm cursor-pointer"
+            >
+              {options.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-500 dark:text-gray-400">
+              <ChevronDown className="h-4 w-4" />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
   return (
     <I18nProvider locale={locale}>
       <div className={isDarkMode ? 'dark' : ''}>
@@ -592,9 +1262,37 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {projects.length > 1 && (
+              <SidebarPicker
+                icon={FolderOpen}
+                label={t('app.project.label')}
+                value={activeProject}
+                options={projects.map(project => ({
+                  id: project.id,
+                  label: project.hasI18n ? project.name : t('app.project.noI18n', { name: project.name })
+                }))}
+                onChange={handleSelectProject}
+              />
+            )}
+
+            {catalogs.length > 1 && (
+              <SidebarPicker
+                icon={Library}
+                label={t('app.catalog.label')}
+                value={activeCatalog}
+                options={catalogs.map(catalog => ({ id: catalog.id, label: catalog.name }))}
+                onChange={handleSelectCatalog}
+              />
+            )}
+
             <nav className={`flex-1 space-y-2 ${isSidebarCollapsed ? 'p-2' : 'p-4'}`}>
               <NavItem view="dashboard" icon={LayoutDashboard} label={t('nav.dashboard')} />
               <NavItem view="list" icon={Globe} label={t('nav.translations')} />
+              {catalogs.length > 1 && (
+                <NavItem view="shared" icon={Layers} label={t('nav.shared')} />
+              )}
+              <NavItem view="qa" icon={ClipboardCheck} label={t('nav.qa')} />
+              <NavItem view="history" icon={History} label={t('nav.history')} />
               <NavItem view="settings" icon={SettingsIcon} label={t('nav.settings')} />
             </nav>
 
@@ -627,7 +1325,7 @@ const App: React.FC = () => {
           <div className="flex-1 overflow-auto p-3 md:p-4">
             <div className="max-w-none w-full mx-auto h-full">
               {statusText && (
-                <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 px-4 py-3 text-sm flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 px-4 py-3 text-sm flex flex-col gap-3 md:flex-row md:flex-wrap md:items-center md:justify-between">
                   <span>{statusText}</span>
                   {(statusCode === 'missingFolder' || statusCode === 'emptyFolder') && (
                     <button
@@ -637,6 +1335,51 @@ const App: React.FC = () => {
                       {t('app.createI18n')}
                     </button>
                   )}
+                  {statusCode === 'invalidFiles' && (
+                    <ul className="space-y-1 text-xs md:basis-full">
+                      {fileErrors.map(error => (
+                        <li key={error.filePath} className="flex items-center justify-between gap-3">
+                          <span>
+                            <code className="font-mono">{error.file}:{error.line}:{error.column}</code> {error.message}
+                          </span>
+                          <button
+                            onClick={() => vscodeApi?.postMessage({ type: 'openFile', filePath: error.filePath, line: error.line, column: error.column })}
+                            className="shrink-0 rounded-lg bg-amber-600 px-3 py-1 text-xs font-semibold text-white hover:bg-amber-700 transition-colors"
+                          >
+                            {t('app.openFile')}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {externalConflicts.length > 0 && (
+                <div className="mb-4 rounded-lg border border-rose-200 bg-rose-50 text-rose-800 px-4 py-3 text-sm space-y-2">
+                  <div className="font-semibold">{t('app.externalConflict.title', { count: externalConflicts.length })}</div>
+                  <ul className="space-y-1 text-xs">
+                    {externalConflicts.map(conflict => (
+                      <li key={`${conflict.key}:${conflict.lang}`}>
+                        <code className="font-mono">{conflict.key}</code> ({conflict.lang}):{' '}
+                        {t('app.externalConflict.detail', { local: conflict.local, incoming: conflict.incoming })}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setExternalConflicts([])}
+                      className="inline-flex items-center justify-center rounded-lg bg-rose-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-rose-700 transition-colors"
+                    >
+                      {t('app.externalConflict.keepMine')}
+                    </button>
+                    <button
+                      onClick={handleUseDiskVersion}
+                      className="inline-flex items-center justify-center rounded-lg border border-rose-300 bg-white px-3 py-1.5 text-xs font-semibold text-rose-700 hover:bg-rose-100 transition-colors"
+                    >
+                      {t('app.externalConflict.useDisk')}
+                    </button>
+                  </div>
                 </div>
               )}
               
@@ -646,13 +1389,56 @@ const App: React.FC = () => {
                   values={values} 
                   languages={activeLanguages} 
                   sourceLangCode={sourceLangCode}
+                  catalogName={catalogs.length > 1 ? catalogs.find(catalog => catalog.id === activeCatalog)?.name : undefined}
+                  usageScan={usageScan?.catalog === activeCatalog ? usageScan : null}
+                  isScanningUsages={isScanningUsages}
+                  onScanUsages={handleScanUsages}
+                  onCreateMissingKeys={handleCreateMissingKeys}
+                  onOpenReference={handleOpenReference}
+                  qaFindings={qaFindings}
+                  onNavigateToQa={() => setCurrentView('qa')}
                   onNavigateToList={() => setCurrentView('list')}
                 />
               )}
 
+              {currentView === 'qa' && (
+                <QaView
+                  findings={qaFindings}
+                  languages={activeLanguages}
+                  sourceLangCode={sourceLangCode}
+                  lockedLangCodes={lockedLangCodes}
+                  qaRules={qaRules}
+                  onQaRulesChange={handleQaRulesChange}
+                  onApplyFixes={handleApplyQaFixes}
+                  onTranslate={handleBulkTranslate}
+                  onOpenKey={handleEdit}
+                />
+              )}
+
+              {currentView === 'shared' && (
+                <SharedKeys
+                  sharedKeys={sharedKeys}
+                  catalogs={catalogs}
+                  activeCatalog={activeCatalog}
+                  onOpenKey={handleOpenSharedKey}
+                />
+              )}
+
+              {currentView === 'history' && (
+                <HistoryPanel
+                  entries={history.entries}
+                  position={history.position}
+                  keyFilter={historyKeyFilter}
+                  onKeyFilterChange={setHistoryKeyFilter}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  onOpenKey={handleOpenHistoryKey}
+                />
+              )}
+
               {currentView === 'list' && (
                 <TranslationList 
-                  keys={keys} 
+                  keys={listKeys} 
                   values={values} 
                   languages={activeLanguages}
                   sourceLangCode={sourceLangCode}
@@ -662,8 +1448,20 @@ const App: React.FC = () => {
                   onSearchModeChange={setListSearchMode}
                   completionSort={listCompletionSort}
                   onCompletionSortChange={setListCompletionSort}
+                  usageFilter={listUsageFilter}
+                  onUsageFilterChange={setListUsageFilter}
+                  placeholderFilter={listPlaceholderFilter}
+                  onPlaceholderFilterChange={setListPlaceholderFilter}
+                  needsReview={needsReview}
+                  usageScan={usageScan?.catalog === activeCatalog ? usageScan : null}
+                  isScanningUsages={isScanningUsages}
+                  onScanUsages={handleScanUsages}
+                  onDeleteUnused={handleDeleteUnused}
                   selectedLang={listSelectedLang}
                   onSelectedLangChange={setListSelectedLang}
+                  namespaces={namespaces}
+                  selectedNamespace={listNamespace}
+                  onSelectedNamespaceChange={setListNamespace}
                   viewMode={listViewMode}
                   onViewModeChange={setListViewMode}
                   isQuickEditMode={listQuickEditMode}
@@ -677,15 +1475,45 @@ const App: React.FC = () => {
                   onEdit={handleEdit}
                   onAddKey={handleAddKey}
                   onDeleteKey={handleDeleteKey}
+                  onRenameKey={handleRenameKey}
+                  onDuplicateKey={handleDuplicateKey}
                   onUpdateValue={handleInlineUpdate}
+                  lockedLangCodes={lockedLangCodes}
+                  reviewed={reviewed}
+                  onBulkAction={handleBulkAction}
+                  onBulkTranslate={handleBulkTranslate}
                   onQuickAdd={handleQuickAdd}
                 />
               )}
 
-              {currentView === 'editor' && editorState.keyId && (
+              {currentView === 'editor' && editorKey?.plural && (
+                <PluralKeyEditor
+                  plural={editorKey.plural}
+                  values={values}
+                  targetLang={editorState.targetLang}
+                  sourceLang={sourceLangCode}
+                  languages={activeLanguages}
+                  lockedLangCodes={lockedLangCodes}
+                  openAiApiKey={openAiApiKey}
+                  openAiModel={openAiModel}
+                  onRecordTokenUsage={handleRecordTokenUsage}
+                  onSave={handleSave}
+                  needsReview={needsReview}
+                  onDismissNeedsReview={clearNeedsReview}
+                  onChangeTarget={(nextLang) => setEditorState({ keyId: editorKey.id, targetLang: nextLang })}
+                  onShowHistory={() => handleShowKeyHistory(editorKey.plural!.base)}
+                  onCancel={() => setCurrentView('list')}
+                />
+              )}
+
+              {currentView === 'editor' && editorState.keyId && editorKey && !editorKey.plural && (
                 <TranslationEditor
-                  keyData={keys.find(k => k.id === editorState.keyId)!}
+                  keyData={editorKey}
                   allValues={values[editorState.keyId] || {}}
+                  needsReview={needsReview[editorState.keyId] || {}}
+                  onMarkNeedsReview={markNeedsReview}
+                  onDismissNeedsReview={clearNeedsReview}
+                  comments={comments[editorState.keyId] || {}}
                   targetLang={editorState.targetLang}
                   sourceLang={sourceLangCode}
                   languages={activeLanguages}
@@ -694,6 +1522,8 @@ const App: React.FC = () => {
                   onRecordTokenUsage={handleRecordTokenUsage}
                   onSave={handleSave}
                   onChangeTarget={handleEditorTargetChange}
+                  onShowHistory={() => handleShowKeyHistory(editorState.keyId!)}
+                  onDuplicateKey={handleDuplicateKey}
                   onCancel={() => setCurrentView('list')}
                 />
               )}
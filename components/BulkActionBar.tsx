@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Trash2, FolderInput, Eraser, Sparkles, CheckCheck, Download, X } from 'lucide-react';
+import { BulkAction, Language } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  filteredCount: number;
+  languages: Language[];
+  sourceLangCode: string;
+  lockedLangCodes: string[];
+  hasOpenAiKey: boolean;
+  onSelectAllFiltered: () => void;
+  onClearSelection: () => void;
+  onAction: (action: BulkAction) => void;
+  onTranslate: (
+    langCodes: string[],
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<{ ok: boolean; error?: string }>;
+}
+
+type PendingAction = 'delete' | 'move' | 'clear' | 'translate' | null;
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  filteredCount,
+  languages,
+  sourceLangCode,
+  lockedLangCodes,
+  hasOpenAiKey,
+  onSelectAllFiltered,
+  onClearSelection,
+  onAction,
+  onTranslate
+}) => {
+  const t = useI18n();
+  const targets = languages.filter(lang => lang.code !== sourceLangCode && !lockedLangCodes.includes(lang.code));
+  const [pending, setPending] = useState<PendingAction>(null);
+  const [prefix, setPrefix] = useState('');
+  const [clearLang, setClearLang] = useState('');
+  const [translateLangs, setTranslateLangs] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = (action: PendingAction) => {
+    setPending(prev => (prev === action ? null : action));
+    setError(null);
+    if (action === 'clear') setClearLang(targets[0]?.code || '');
+    if (action === 'translate') setTranslateLangs(targets.map(lang => lang.code));
+  };
+
+  const run = (action: BulkAction) => {
+    onAction(action);
+    setPending(null);
+  };
+
+  const handleTranslate = async () => {
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    const result = await onTranslate(translateLangs, (done, total) => setProgress({ done, total }));
+    setProgress(null);
+    if (result.ok) {
+      setPending(null);
+    } else {
+      setError(result.error || t('errors.translationFailed'));
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors ${
+      active
+        ? 'bg-indigo-600 text-white border-indigo-600'
+        : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+    }`;
+  const inputClass = 'px-3 py-1.5 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+  const confirmClass = 'px-3 py-1.5 rounded-lg text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors';
+
+  return (
+    <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-xl px-4 py-3 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-indigo-800 dark:text-indigo-200">
+          {t('bulk.selected', { count: selectedCount })}
+        </span>
+        {selectedCount < filteredCount && (
+          <button onClick={onSelectAllFiltered} className="text-indigo-600 dark:text-indigo-300 hover:underline text-xs font-medium">
+            {t('bulk.selectAllFiltered', { count: filteredCount })}
+          </button>
+        )}
+        <button onClick={onClearSelection} className="inline-flex items-center gap-1 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 text-xs">
+          <X className="w-3 h-3" /> {t('bulk.clearSelection')}
+        </button>
+
+        <div className="flex flex-wrap items-center gap-2 md:ml-auto">
+          <button onClick={() => open('translate')} className={buttonClass(pending === 'translate')} disabled={progress !== null}>
+            <Sparkles className="w-3.5 h-3.5" /> {t('bulk.translate')}
+          </button>
+          <button onClick={() => run({ kind: 'review' })} className={buttonClass(false)}>
+            <CheckCheck className="w-3.5 h-3.5" /> {t('bulk.review')}
+          </button>
+          <button onClick={() => open('move')} className={buttonClass(pending === 'move')}>
+            <FolderInput className="w-3.5 h-3.5" /> {t('bulk.move')}
+          </button>
+          <button onClick={() => open('clear')} className={buttonClass(pending === 'clear')} disabled={targets.length === 0}>
+            <Eraser className="w-3.5 h-3.5" /> {t('bulk.clear')}
+          </button>
+          <button onClick={() => run({ kind: 'export' })} className={buttonClass(false)}>
+            <Download className="w-3.5 h-3.5" /> {t('bulk.export')}
+          </button>
+          <button onClick={() => open('delete')} className={`${buttonClass(pending === 'delete')} text-rose-600 dark:text-rose-400`}>
+            <Trash2 className="w-3.5 h-3.5" /> {t('bulk.delete')}
+          </button>
+        </div>
+      </div>
+
+      {pending === 'delete' && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-rose-700 dark:text-rose-300">{t('bulk.deleteConfirm', { count: selectedCount })}</span>
+          <button onClick={() => run({ kind: 'delete' })} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-white bg-rose-600 hover:bg-rose-700 transition-colors">
+            {t('bulk.delete')}
+          </button>
+        </div>
+      )}
+
+      {pending === 'move' && (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value)}
+            placeholder="feature.section"
+            className={`${inputClass} font-mono`}
+            autoFocus
+          />
+          <button onClick={() => run({ kind: 'move', prefix })} disabled={!prefix.trim()} className={confirmClass}>
+            {t('bulk.moveConfirm')}
+          </button>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t('bulk.moveHelp')}</span>
+        </div>
+      )}
+
+      {pending === 'clear' && (
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={clearLang} onChange={(e) => setClearLang(e.target.value)} className={inputClass}>
+            {targets.map(lang => (
+              <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option>
+            ))}
+          </select>
+          <button onClick={() => run({ kind: 'clear', lang: clearLang })} disabled={!clearLang} className={confirmClass}>
+            {t('bulk.clearConfirm')}
+          </button>
+        </div>
+      )}
+
+      {pending === 'translate' && (
+        <div className="space-y-2">
+          {!hasOpenAiKey && (
+            <div className="text-xs text-amber-700 dark:text-amber-300">{t('errors.openAiKeyMissing')}</div>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            {targets.map(lang => (
+              <label key={lang.code} className="inline-flex items-center gap-1.5 text-xs text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={translateLangs.includes(lang.code)}
+                  onChange={(e) =>
+                    setTranslateLangs(prev =>
+                      e.target.checked ? [...prev, lang.code] : prev.filter(code => code !== lang.code)
+                    )
+                  }
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {lang.flag} {lang.name}
+              </label>
+            ))}
+            <button
+              onClick={handleTranslate}
+              disabled={!hasOpenAiKey || translateLangs.length === 0 || progress !== null}
+              className={confirmClass}
+            >
+              {progress
+                ? t('bulk.translateProgress', { done: progress.done, total: progress.total })
+                : t('bulk.translateConfirm')}
+            </button>
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">{t('bulk.translateHelp')}</div>
+          {error && <div className="text-xs text-rose-600 dark:text-rose-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
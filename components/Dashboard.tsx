@@ -1,6 +1,8 @@
 ﻿import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { TranslationKey, TranslationValue, Language } from '../types';
+import { ClipboardCheck, Plus, ScanSearch } from 'lucide-react';
+import { TranslationKey, TranslationValue, Language, MissingKey, UsageScan } from '../types';
+import { QA_RULES, QaFinding } from '../services/qa';
 import { useI18n } from '../services/i18n';
 
 interface DashboardProps {
@@ -8,10 +10,32 @@ interface DashboardProps {
   values: Record<string, TranslationValue>;
   languages: Language[];
   sourceLangCode: string;
+  catalogName?: string;
+  usageScan: UsageScan | null;
+  isScanningUsages: boolean;
+  onScanUsages: () => void;
+  onCreateMissingKeys: (missing: MissingKey[]) => void;
+  onOpenReference: (missing: MissingKey) => void;
+  qaFindings: QaFinding[];
+  onNavigateToQa: () => void;
   onNavigateToList: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ keys, values, languages, sourceLangCode, onNavigateToList }) => {
+const Dashboard: React.FC<DashboardProps> = ({
+  keys,
+  values,
+  languages,
+  sourceLangCode,
+  catalogName,
+  usageScan,
+  isScanningUsages,
+  onScanUsages,
+  onCreateMissingKeys,
+  onOpenReference,
+  qaFindings,
+  onNavigateToQa,
+  onNavigateToList
+}) => {
   const t = useI18n();
   const totalKeys = keys.length;
   const estimateTokens = (text: string) => {
@@ -53,6 +77,11 @@ const Dashboard: React.FC<DashboardProps> = ({ keys, values, languages, sourceLa
   const overallProgress = totalSlots === 0 ? 0 : Math.round((filledSlots / totalSlots) * 100);
   const totalMissingTokens = data.reduce((acc, curr) => acc + curr.missingTokens, 0);
   const formatTokens = (value: number) => value.toLocaleString();
+  const definedKeys = new Set(keys.flatMap(key => [key.key, key.key.slice(key.key.indexOf(':') + 1)]));
+  const missingKeys = (usageScan?.missingKeys ?? []).filter(item => !definedKeys.has(item.key));
+  const qaCounts = QA_RULES
+    .map(rule => ({ rule, count: qaFindings.filter(finding => finding.rule === rule).length }))
+    .filter(entry => entry.count > 0);
   const renderTooltip = ({ active, payload }: { active?: boolean; payload?: any[] }) => {
     if (!active || !payload || payload.length === 0) return null;
     const entry = payload[0].payload as {
@@ -85,7 +114,9 @@ const Dashboard: React.FC<DashboardProps> = ({ keys, values, languages, sourceLa
     <div className="space-y-6 animate-fade-in text-gray-900 dark:text-gray-100">
       <header className="mb-8">
         <h1 className="text-3xl font-bold text-gray-800 dark:text-white">{t('dashboard.title')}</h1>
-        <p className="text-gray-500 dark:text-gray-400">{t('dashboard.subtitle')}</p>
+        <p className="text-gray-500 dark:text-gray-400">
+          {catalogName ? t('dashboard.catalogSubtitle', { catalog: catalogName }) : t('dashboard.subtitle')}
+        </p>
       </header>
 
       {/* Stats Cards */}
@@ -143,6 +174,86 @@ const Dashboard: React.FC<DashboardProps> = ({ keys, values, languages, sourceLa
         </div>
       </div>
 
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white">{t('dashboard.missing.title')}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {usageScan
+                ? t('dashboard.missing.summary', { count: missingKeys.length, files: usageScan.scannedFiles })
+                : t('dashboard.missing.notScanned')}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {missingKeys.length > 1 && (
+              <button
+                onClick={() => onCreateMissingKeys(missingKeys)}
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+              >
+                <Plus className="w-4 h-4" /> {t('dashboard.missing.createAll', { count: missingKeys.length })}
+              </button>
+            )}
+            <button
+              onClick={onScanUsages}
+              disabled={isScanningUsages}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              <ScanSearch className="w-4 h-4" />
+              {isScanningUsages ? t('translations.usage.scanning') : t('translations.usage.scan')}
+            </button>
+          </div>
+        </div>
+        {missingKeys.length > 0 && (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {missingKeys.map(item => (
+              <li key={item.key} className="flex flex-wrap items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <div className="font-mono text-sm text-indigo-600 dark:text-indigo-400 break-all">{item.key}</div>
+                  <div className="flex flex-wrap gap-x-3 text-xs text-gray-500 dark:text-gray-400">
+                    <button onClick={() => onOpenReference(item)} className="hover:underline">
+                      {item.file}:{item.line}
+                    </button>
+                    {item.references > 1 && <span>{t('dashboard.missing.references', { count: item.references })}</span>}
+                    {item.defaultValue && <span className="italic break-all">"{item.defaultValue}"</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onCreateMissingKeys([item])}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold border border-indigo-200 dark:border-indigo-700 text-indigo-600 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 transition-colors"
+                >
+                  <Plus className="w-3.5 h-3.5" /> {t('dashboard.missing.create')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white">{t('dashboard.qa.title')}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('dashboard.qa.summary', { count: qaFindings.length })}</p>
+          </div>
+          <button
+            onClick={onNavigateToQa}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            <ClipboardCheck className="w-4 h-4" /> {t('dashboard.qa.open')}
+          </button>
+        </div>
+        {qaCounts.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {qaCounts.map(entry => (
+              <div key={entry.rule} className="flex items-center justify-between rounded-lg border border-gray-200 dark:border-gray-700 px-3 py-2">
+                <div className="text-sm font-medium text-gray-800 dark:text-gray-100">{t(`qa.rule.${entry.rule}`)}</div>
+                <div className="text-sm font-semibold text-amber-600 dark:text-amber-400">{entry.count}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="flex justify-end">
         <button 
           onClick={onNavigateToList}
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+interface DuplicateKeyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (from: string, to: string, clearTargets: boolean) => void;
+  keyName: string;
+  sourceLangName: string;
+}
+
+const DuplicateKeyModal: React.FC<DuplicateKeyModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  keyName,
+  sourceLangName
+}) => {
+  const t = useI18n();
+  const [newKeyName, setNewKeyName] = useState('');
+  const [clearTargets, setClearTargets] = useState(false);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setNewKeyName(`${keyName}_copy`);
+    setClearTargets(false);
+  }, [isOpen, keyName]);
+
+  if (!isOpen) return null;
+
+  const canSubmit = newKeyName.trim() && newKeyName.trim() !== keyName;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onConfirm(keyName, newKeyName.trim(), clearTargets);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md animate-fade-in border border-gray-200 dark:border-gray-700">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white">{t('duplicateKey.title')}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {t('duplicateKey.message')}{' '}
+            <code className="font-mono text-indigo-600 dark:text-indigo-400 break-all">{keyName}</code>
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {t('duplicateKey.newKey')}
+            </label>
+            <input
+              type="text"
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
+              autoFocus
+            />
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={clearTargets}
+              onChange={(e) => setClearTargets(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>
+              {t('duplicateKey.clearTargets')}
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                {t('duplicateKey.clearTargetsHelp', { source: sourceLangName })}
+              </span>
+            </span>
+          </label>
+
+          <div className="flex gap-3 justify-end pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+            >
+              {t('duplicateKey.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('duplicateKey.confirm')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateKeyModal;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Search, Undo2, Redo2 } from 'lucide-react';
+import { HistoryChange, HistoryEntry } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  position: number;
+  keyFilter: string;
+  onKeyFilterChange: (value: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onOpenKey: (key: string) => void;
+}
+
+const MAX_VISIBLE_CHANGES = 6;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  position,
+  keyFilter,
+  onKeyFilterChange,
+  onUndo,
+  onRedo,
+  onOpenKey
+}) => {
+  const t = useI18n();
+  const term = keyFilter.trim().toLowerCase();
+
+  const matches = (change: HistoryChange) => !term || change.key.toLowerCase().includes(term);
+
+  const visible = entries
+    .map((entry, index) => ({ entry, undone: index >= position }))
+    .filter(({ entry }) => entry.changes.some(matches))
+    .reverse();
+
+  const renderValue = (value: string | null) => {
+    if (value === null) return <span className="italic text-gray-400">{t('history.absent')}</span>;
+    if (!value) return <span className="italic text-gray-400">{t('history.emptyValue')}</span>;
+    return <span className="break-words">{value}</span>;
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in text-gray-900 dark:text-gray-100">
+      <header className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">{t('history.title')}</h1>
+          <p className="text-gray-500 dark:text-gray-400">{t('history.subtitle')}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onUndo}
+            disabled={position === 0}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Undo2 className="w-4 h-4" /> {t('history.undo')}
+          </button>
+          <button
+            type="button"
+            onClick={onRedo}
+            disabled={position >= entries.length}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Redo2 className="w-4 h-4" /> {t('history.redo')}
+          </button>
+        </div>
+      </header>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="text"
+          value={keyFilter}
+          onChange={(e) => onKeyFilterChange(e.target.value)}
+          placeholder={t('history.search')}
+          className="w-full pl-9 pr-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+        {visible.length === 0 && (
+          <div className="p-6 text-sm text-gray-500 dark:text-gray-400">{t('history.empty')}</div>
+        )}
+        {visible.map(({ entry, undone }) => {
+          const changes = entry.changes.filter(matches);
+          return (
+            <div key={entry.id} className={`p-4 space-y-2 ${undone ? 'opacity-50' : ''}`}>
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm font-semibold text-gray-800 dark:text-gray-100">
+                  {t(`history.kind.${entry.kind}`, { count: entry.changes.length })}
+                </span>
+                <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  {undone && (
+                    <span className="font-semibold px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700">
+                      {t('history.undone')}
+                    </span>
+                  )}
+                  <span>{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                </div>
+              </div>
+              <ul className="space-y-1 text-xs">
+                {changes.slice(0, MAX_VISIBLE_CHANGES).map(change => (
+                  <li key={`${change.key}:${change.lang}`} className="flex flex-wrap items-baseline gap-x-2">
+                    <button
+                      type="button"
+                      onClick={() => onOpenKey(change.key)}
+                      className="font-mono text-indigo-600 dark:text-indigo-400 hover:underline break-all"
+                    >
+                      {change.key}
+                    </button>
+                    <span className="font-semibold text-gray-500 dark:text-gray-400">{change.lang}</span>
+                    <span className="text-gray-600 dark:text-gray-300">
+                      {renderValue(change.before)} → {renderValue(change.after)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {changes.length > MAX_VISIBLE_CHANGES && (
+                <div className="text-xs text-gray-400">
+                  {t('history.moreChanges', { count: changes.length - MAX_VISIBLE_CHANGES })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, X, AlertTriangle, Copy } from 'lucide-react';
+import {
+  IcuNode,
+  IcuSyntaxError,
+  PLURAL_CATEGORIES,
+  getPluralCategories,
+  getPluralExamples,
+  parseIcu,
+  printIcu,
+  validateIcu
+} from '../services/icu';
+import { useI18n } from '../services/i18n';
+
+interface IcuEditorProps {
+  value: string;
+  sourceValue: string;
+  langCode: string;
+  langName: string;
+  onChange: (value: string) => void;
+}
+
+type Segment =
+  | { kind: 'text'; raw: string }
+  | {
+      kind: 'plural' | 'select';
+      name: string;
+      ordinal: boolean;
+      offset: number;
+      options: { selector: string; raw: string }[];
+    };
+
+const toSegments = (nodes: IcuNode[]): Segment[] => {
+  const segments: Segment[] = [];
+  let pending: IcuNode[] = [];
+  const flush = () => {
+    if (pending.length > 0) segments.push({ kind: 'text', raw: printIcu(pending) });
+    pending = [];
+  };
+  for (const node of nodes) {
+    if (node.type === 'plural' || node.type === 'select') {
+      flush();
+      segments.push({
+        kind: node.type,
+        name: node.name,
+        ordinal: node.type === 'plural' && node.ordinal,
+        offset: node.type === 'plural' ? node.offset : 0,
+        options: node.options.map(option => ({
+          selector: option.selector,
+          raw: printIcu(option.value, node.type === 'plural')
+        }))
+      });
+    } else {
+      pending.push(node);
+    }
+  }
+  flush();
+  return segments;
+};
+
+const compose = (segments: Segment[]): string =>
+  segments
+    .map(segment => {
+      if (segment.kind === 'text') return segment.raw;
+      const format = segment.kind === 'select' ? 'select' : segment.ordinal ? 'selectordinal' : 'plural';
+      const offset = segment.offset ? ` offset:${segment.offset}` : '';
+      const options = segment.options.map(option => `${option.selector} {${option.raw}}`).join(' ');
+      return `{${segment.name}, ${format},${offset} ${options}}`;
+    })
+    .join('');
+
+const selectorRank = (selector: string) => {
+  if (selector.startsWith('=')) return -1;
+  const index = PLURAL_CATEGORIES.indexOf(selector);
+  return index === -1 ? PLURAL_CATEGORIES.length : index;
+};
+
+const IcuEditor: React.FC<IcuEditorProps> = ({ value, sourceValue, langCode, langName, onChange }) => {
+  const t = useI18n();
+  const [segments, setSegments] = useState<Segment[] | null>(null);
+  const [syntaxError, setSyntaxError] = useState<IcuSyntaxError | null>(null);
+  const [newSelectors, setNewSelectors] = useState<Record<number, string>>({});
+  const lastEmitted = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Edits made here come back through `value`; only reparse external changes.
+    if (value === lastEmitted.current) return;
+    try {
+      setSegments(toSegments(parseIcu(value)));
+      setSyntaxError(null);
+    } catch (err) {
+      if (!(err instanceof IcuSyntaxError)) throw err;
+      setSegments(null);
+      setSyntaxError(err);
+    }
+  }, [value]);
+
+  const warnings = useMemo(
+    () => (syntaxError ? [] : validateIcu(value, langCode)),
+    [value, langCode, syntaxError]
+  );
+
+  const update = (next: Segment[]) => {
+    setSegments(next);
+    const message = compose(next);
+    lastEmitted.current = message;
+    onChange(message);
+  };
+
+  const updateSegment = (index: number, segment: Segment) => {
+    if (!segments) return;
+    update(segments.map((item, position) => (position === index ? segment : item)));
+  };
+
+  const addOption = (index: number, selector: string) => {
+    const segment = segments?.[index];
+    if (!segment || segment.kind === 'text' || !selector) return;
+    if (segment.options.some(option => option.selector === selector)) return;
+    const fallback = segment.options.find(option => option.selector === 'other')?.raw ?? '';
+    const options = [...segment.options, { selector, raw: fallback }].sort(
+      (a, b) => selectorRank(a.selector) - selectorRank(b.selector)
+    );
+    updateSegment(index, { ...segment, options });
+    setNewSelectors(prev => ({ ...prev, [index]: '' }));
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  if (syntaxError) {
+    return (
+      <div className="p-4 text-sm text-red-600 dark:text-red-400 flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+        <span>
+          {t(`icu.error.${syntaxError.code}`, { offset: syntaxError.offset })}{' '}
+          {t('icu.switchToText')}
+        </span>
+      </div>
+    );
+  }
+
+  if (!segments) return null;
+
+  const hasBlocks = segments.some(segment => segment.kind !== 'text');
+
+  return (
+    <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+      {!hasBlocks && (
+        <button
+          type="button"
+          onClick={() => {
+            lastEmitted.current = null;
+            onChange(sourceValue);
+          }}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold border border-indigo-200 dark:border-indigo-800 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 transition-colors"
+        >
+          <Copy className="w-3.5 h-3.5" /> {t('icu.copySource')}
+        </button>
+      )}
+
+      {segments.map((segment, index) => {
+        if (segment.kind === 'text') {
+          return (
+            <div key={index}>
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500 mb-1">
+                {t('icu.text')}
+              </div>
+              <input
+                type="text"
+                value={segment.raw}
+                onChange={(e) => updateSegment(index, { ...segment, raw: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          );
+        }
+
+        const required = segment.kind === 'plural' ? getPluralCategories(langCode, segment.ordinal) : [];
+        const examples = segment.kind === 'plural' ? getPluralExamples(langCode, segment.ordinal) : {};
+        const selectors = segment.options.map(option => option.selector);
+        const missing = required.filter(category => !selectors.includes(category));
+
+        return (
+          <div key={index} className="rounded-lg border border-indigo-200 dark:border-indigo-800/50 bg-indigo-50/40 dark:bg-indigo-900/10 p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <code className="font-mono font-semibold text-indigo-700 dark:text-indigo-300">{segment.name}</code>
+              <span className="px-1.5 py-0.5 rounded bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 uppercase tracking-wide text-[10px] font-semibold">
+                {segment.kind === 'select' ? 'select' : segment.ordinal ? 'selectordinal' : 'plural'}
+              </span>
+              {segment.kind === 'plural' && (
+                <span className="text-gray-500 dark:text-gray-400">
+                  {t('icu.requiredCategories', { language: langName, categories: required.join(', ') })}
+                </span>
+              )}
+            </div>
+
+            {segment.options.map(option => {
+              const unused =
+                segment.kind === 'plural' &&
+                PLURAL_CATEGORIES.includes(option.selector) &&
+                !required.includes(option.selector);
+              return (
+                <div key={option.selector} className="flex items-start gap-2">
+                  <div className="w-24 shrink-0 pt-1.5">
+                    <div className={`font-mono text-xs font-semibold ${unused ? 'text-amber-600 dark:text-amber-400' : 'text-gray-700 dark:text-gray-200'}`}>
+                      {option.selector}
+                    </div>
+                    {examples[option.selector] && (
+                      <div className="text-[10px] text-gray-400 dark:text-gray-500">
+                        {examples[option.selector].join(', ')}
+                      </div>
+                    )}
+                    {unused && (
+                      <div className="text-[10px] text-amber-600 dark:text-amber-400">{t('icu.unusedCategory')}</div>
+                    )}
+                  </div>
+                  <textarea
+                    value={option.raw}
+                    rows={1}
+                    onChange={(e) =>
+                      updateSegment(index, {
+                        ...segment,
+                        options: segment.options.map(item =>
+                          item.selector === option.selector ? { ...item, raw: e.target.value } : item
+                        )
+                      })
+                    }
+                    className={`${inputClass} resize-y`}
+                  />
+                  {option.selector !== 'other' && (
+                    <button
+                      type="button"
+                      title={t('icu.removeOption')}
+                      onClick={() =>
+                        updateSegment(index, {
+                          ...segment,
+                          options: segment.options.filter(item => item.selector !== option.selector)
+                        })
+                      }
+                      className="p-1.5 text-gray-400 hover:text-rose-600 dark:hover:text-rose-400 transition-colors"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex flex-wrap items-center gap-2 pt-1">
+              {missing.map(category => (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => addOption(index, category)}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded border border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-300 text-xs font-mono hover:bg-amber-50 dark:hover:bg-amber-900/30 transition-colors"
+                >
+                  <Plus className="w-3 h-3" /> {category}
+                </button>
+              ))}
+              <input
+                type="text"
+                value={newSelectors[index] || ''}
+                onChange={(e) => setNewSelectors(prev => ({ ...prev, [index]: e.target.value.trim() }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addOption(index, newSelectors[index] || '');
+                  }
+                }}
+                placeholder={segment.kind === 'plural' ? '=0' : 'female'}
+                className="w-28 px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => addOption(index, newSelectors[index] || '')}
+                disabled={!newSelectors[index]}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold text-indigo-600 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-50 transition-colors"
+              >
+                <Plus className="w-3 h-3" /> {t('icu.addOption')}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {warnings.length > 0 && (
+        <div className="space-y-1">
+          {warnings.map((issue, index) => (
+            <div
+              key={index}
+              className={`text-xs flex items-center gap-1.5 ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {t(`icu.error.${issue.code}`, {
+                argument: issue.argument || '',
+                categories: (issue.categories || []).join(', '),
+                offset: issue.offset ?? 0
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IcuEditor;
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { IcuNode, IcuSyntaxError, collectIcuArguments, formatIcu, getPluralExamples, parseIcu } from '../services/icu';
+import { useI18n } from '../services/i18n';
+
+interface IcuPreviewProps {
+  message: string;
+  langCode: string;
+}
+
+const findSelectors = (nodes: IcuNode[], name: string): string[] => {
+  for (const node of nodes) {
+    if (node.type !== 'plural' && node.type !== 'select') continue;
+    if (node.name === name) return node.options.map(option => option.selector);
+    for (const option of node.options) {
+      const nested = findSelectors(option.value, name);
+      if (nested.length > 0) return nested;
+    }
+  }
+  return [];
+};
+
+const IcuPreview: React.FC<IcuPreviewProps> = ({ message, langCode }) => {
+  const t = useI18n();
+  const [samples, setSamples] = useState<Record<string, string>>({});
+
+  const parsed = useMemo(() => {
+    try {
+      return { nodes: parseIcu(message), error: null };
+    } catch (err) {
+      if (!(err instanceof IcuSyntaxError)) throw err;
+      return { nodes: [] as IcuNode[], error: err };
+    }
+  }, [message]);
+
+  const argumentTypes = useMemo(() => collectIcuArguments(parsed.nodes), [parsed.nodes]);
+  const examples = useMemo(() => getPluralExamples(langCode), [langCode]);
+  const exampleCounts = Array.from(new Set(Object.values(examples).map(list => list[list.length > 1 ? 1 : 0])))
+    .sort((a, b) => a - b);
+
+  if (parsed.error) {
+    return (
+      <p className="text-red-600 dark:text-red-400 text-sm">
+        {t(`icu.error.${parsed.error.code}`, { offset: parsed.error.offset })}
+      </p>
+    );
+  }
+
+  const args: Record<string, string> = {};
+  argumentTypes.forEach((type, name) => {
+    const fallback =
+      type === 'plural' ? '1' : type === 'select' ? findSelectors(parsed.nodes, name).find(s => s !== 'other') || 'other' : name;
+    args[name] = samples[name] ?? fallback;
+  });
+
+  const setSample = (name: string, value: string) => setSamples(prev => ({ ...prev, [name]: value }));
+
+  return (
+    <div className="space-y-4">
+      {argumentTypes.size > 0 && (
+        <div className="not-prose rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 p-3 space-y-2">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+            {t('icu.sampleArguments')}
+          </div>
+          {Array.from(argumentTypes.entries()).map(([name, type]) => (
+            <div key={name} className="flex flex-wrap items-center gap-2 text-xs">
+              <code className="w-24 font-mono text-gray-700 dark:text-gray-200 truncate">{name}</code>
+              {type === 'select' ? (
+                <select
+                  value={args[name]}
+                  onChange={(e) => setSample(name, e.target.value)}
+                  className="px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 font-mono"
+                >
+                  {findSelectors(parsed.nodes, name).map(selector => (
+                    <option key={selector} value={selector}>{selector}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={type === 'plural' ? 'number' : 'text'}
+                  value={args[name]}
+                  onChange={(e) => setSample(name, e.target.value)}
+                  className="w-32 px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 font-mono"
+                />
+              )}
+              {type === 'plural' &&
+                exampleCounts.map(count => (
+                  <button
+                    key={count}
+                    type="button"
+                    onClick={() => setSample(name, String(count))}
+                    className={`px-1.5 py-0.5 rounded font-mono ${
+                      args[name] === String(count)
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600'
+                    }`}
+                  >
+                    {count}
+                  </button>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+      <ReactMarkdown>{formatIcu(parsed.nodes, args, langCode)}</ReactMarkdown>
+    </div>
+  );
+};
+
+export default IcuPreview;
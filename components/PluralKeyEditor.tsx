@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Save, Sparkles, AlertTriangle, History } from 'lucide-react';
+import { HistoryGroup, Language, NeedsReviewState, PluralForms, TokenUsageDelta, TranslationValue } from '../types';
+import { PluralRepairError, translatePluralForms } from '../services/geminiService';
+import { getPluralCategories, getPluralExamples } from '../services/icu';
+import { getPluralFormCategories, getPluralFormValues, pluralFormKey } from '../services/pluralKeys';
+import { checkPlaceholders, describePlaceholderIssue } from '../services/placeholders';
+import { useI18n } from '../services/i18n';
+
+interface PluralKeyEditorProps {
+  plural: PluralForms;
+  values: Record<string, TranslationValue>;
+  targetLang: string;
+  sourceLang: string;
+  languages: Language[];
+  lockedLangCodes: string[];
+  openAiApiKey: string;
+  openAiModel: string;
+  onRecordTokenUsage: (usage: TokenUsageDelta) => void;
+  onSave: (keyId: string, langCode: string, value: string, options?: { stay?: boolean; group?: HistoryGroup }) => void;
+  needsReview: NeedsReviewState;
+  onDismissNeedsReview: (keyId: string, langCode: string) => void;
+  onChangeTarget: (nextLang: string) => void;
+  onShowHistory: () => void;
+  onCancel: () => void;
+}
+
+const PluralKeyEditor: React.FC<PluralKeyEditorProps> = ({
+  plural,
+  values,
+  targetLang,
+  sourceLang,
+  languages,
+  lockedLangCodes,
+  openAiApiKey,
+  openAiModel,
+  onRecordTokenUsage,
+  onSave,
+  needsReview,
+  onDismissNeedsReview,
+  onChangeTarget,
+  onShowHistory,
+  onCancel
+}) => {
+  const t = useI18n();
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmPlaceholders, setConfirmPlaceholders] = useState(false);
+
+  const targetLangObj = languages.find(lang => lang.code === targetLang);
+  const sourceLangName = languages.find(lang => lang.code === sourceLang)?.name || sourceLang;
+  const targetLangName = targetLangObj?.name || targetLang;
+  const sourceForms = getPluralFormValues(plural, values, sourceLang);
+  const savedForms = getPluralFormValues(plural, values, targetLang);
+  const categories = getPluralFormCategories(plural, targetLang);
+  const required = getPluralCategories(targetLang);
+  const examples = getPluralExamples(targetLang);
+  const isLocked = lockedLangCodes.includes(targetLang);
+  const placeholderIssues = Object.fromEntries(
+    categories.map(category => [
+      category,
+      targetLang === sourceLang
+        ? []
+        : checkPlaceholders(sourceForms[category] || sourceForms.other || '', draft[category] || '')
+    ])
+  );
+  const hasPlaceholderIssues = categories.some(category => placeholderIssues[category].length > 0);
+
+  useEffect(() => {
+    setDraft(getPluralFormValues(plural, values, targetLang));
+    setError(null);
+  }, [plural.base, targetLang, values]);
+
+  useEffect(() => {
+    setConfirmPlaceholders(false);
+  }, [draft]);
+
+  const saveDraft = () => {
+    const group: HistoryGroup = { id: `plural:${plural.base}:${Date.now()}`, kind: 'updateValue' };
+    categories.forEach(category => {
+      const next = draft[category] || '';
+      if (next === (savedForms[category] || '')) return;
+      onSave(pluralFormKey(plural.base, category), targetLang, next, { stay: true, group });
+    });
+  };
+
+  const handleSave = () => {
+    if (isLocked) {
+      setError(t('errors.fileLocked', { lang: targetLang }));
+      return;
+    }
+    if (hasPlaceholderIssues && !confirmPlaceholders) {
+      setConfirmPlaceholders(true);
+      return;
+    }
+    saveDraft();
+    onCancel();
+  };
+
+  const handleTargetChange = (nextLang: string) => {
+    if (nextLang === targetLang) return;
+    if (!isLocked) saveDraft();
+    onChangeTarget(nextLang);
+  };
+
+  const handleAiTranslate = async () => {
+    if (Object.keys(sourceForms).length === 0) return;
+    if (!openAiApiKey) {
+      setError(t('errors.openAiKeyMissing'));
+      return;
+    }
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const translated = await translatePluralForms(sourceForms, required, targetLangName, sourceLangName, plural.base, {
+        openAiApiKey,
+        openAiModel,
+        targetLangCode: targetLang,
+        onUsage: onRecordTokenUsage
+      });
+      setDraft(prev => ({ ...prev, ...translated }));
+    } catch (err) {
+      if (err instanceof PluralRepairError) {
+        setDraft(prev => ({ ...prev, ...err.intact, ...err.broken }));
+        setError(t('placeholders.repairFailed'));
+      } else {
+        setError(t('editor.error.ai'));
+      }
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full animate-fade-in text-gray-900 dark:text-gray-100">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors text-gray-500 dark:text-gray-400"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+              <span className="font-mono bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded text-base border border-gray-200 dark:border-gray-700">{plural.base}</span>
+              <span className="px-1.5 py-0.5 rounded bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 uppercase tracking-wide text-[10px] font-semibold">
+                {t('plural.badge')}
+              </span>
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {t('editor.translatingFromTo', { source: sourceLangName, target: targetLangName })}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onShowHistory}
+            title={t('editor.history')}
+            className="p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <History className="w-5 h-5" />
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg font-medium transition-colors"
+          >
+            {t('editor.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:hover:bg-indigo-500 text-white rounded-lg font-medium transition-colors flex items-center gap-2 shadow-sm"
+          >
+            <Save className="w-4 h-4" /> {confirmPlaceholders ? t('placeholders.saveAnyway') : t('editor.save')}
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+          {t('editor.language')}
+        </span>
+        <select
+          value={targetLang}
+          onChange={(e) => handleTargetChange(e.target.value)}
+          className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-gray-800 dark:text-gray-200 py-1.5 pl-3 pr-3 rounded-lg text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {languages.map(lang => (
+            <option key={lang.code} value={lang.code}>
+              {lang.flag ? `${lang.flag} ` : ''}{lang.name || lang.code}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {t('plural.required', { language: targetLangName, categories: required.join(', ') })}
+        </span>
+      </div>
+
+      <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-6 min-h-0">
+        <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-4 overflow-y-auto custom-scrollbar">
+          <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3">
+            {t('editor.original', { source: sourceLangName })}
+          </h3>
+          <div className="space-y-3">
+            {Object.entries(sourceForms).map(([category, text]) => (
+              <div key={category}>
+                <div className="font-mono text-xs font-semibold text-gray-500 dark:text-gray-400">
+                  {pluralFormKey(plural.base, category)}
+                </div>
+                <div className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{text}</div>
+              </div>
+            ))}
+            {Object.keys(sourceForms).length === 0 && (
+              <span className="text-sm text-gray-400 dark:text-gray-600 italic">{t('editor.original.empty')}</span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm overflow-hidden">
+          <div className="bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 p-2 flex items-center justify-end">
+            <button
+              onClick={handleAiTranslate}
+              disabled={isTranslating || isLocked || Object.keys(sourceForms).length === 0}
+              className="text-xs flex items-center gap-1 px-2 py-1 rounded border transition-colors bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-purple-50 dark:hover:bg-purple-900/30 hover:text-purple-700 dark:hover:text-purple-300 disabled:opacity-50"
+            >
+              <Sparkles className="w-3 h-3" />
+              {isTranslating ? t('editor.autoTranslating') : t('plural.translateForms', { count: required.length })}
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-xs px-3 py-2 flex items-center gap-2 border-b border-red-100 dark:border-red-900/30">
+              <AlertTriangle className="w-3 h-3" /> {error}
+            </div>
+          )}
+
+          {confirmPlaceholders && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-xs px-3 py-2 flex items-center gap-2 border-b border-amber-100 dark:border-amber-900/30">
+              <AlertTriangle className="w-3 h-3" /> {t('placeholders.confirmSave')}
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+            {categories.map(category => {
+              const isRequired = required.includes(category);
+              const isMissing = isRequired && !(draft[category] || '').trim();
+              const formKey = pluralFormKey(plural.base, category);
+              const rejectedSuggestion = needsReview[formKey]?.[targetLang];
+              return (
+                <div key={category}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-mono text-xs font-semibold text-gray-700 dark:text-gray-200">
+                      {formKey}
+                    </span>
+                    {examples[category] && (
+                      <span className="text-[10px] text-gray-400 dark:text-gray-500">{examples[category].join(', ')}</span>
+                    )}
+                    {!plural.forms[category] && (
+                      <span className="text-[10px] text-indigo-600 dark:text-indigo-300">{t('plural.newForm')}</span>
+                    )}
+                    {!isRequired && (
+                      <span className="text-[10px] text-amber-600 dark:text-amber-400">{t('icu.unusedCategory')}</span>
+                    )}
+                  </div>
+                  <textarea
+                    value={draft[category] || ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, [category]: e.target.value }))}
+                    readOnly={isLocked}
+                    rows={2}
+                    placeholder={sourceForms[category] || sourceForms.other || ''}
+                    className={`w-full p-2 text-sm font-mono rounded border bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none resize-y ${
+                      isMissing ? 'border-amber-300 dark:border-amber-700' : 'border-gray-200 dark:border-gray-600'
+                    }`}
+                  />
+                  {rejectedSuggestion !== undefined && (
+                    <div className="mt-1 rounded bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-[11px] px-2 py-1 space-y-1">
+                      <div>{t('needsReview.rejected')}</div>
+                      <div className="font-mono whitespace-pre-wrap text-gray-700 dark:text-gray-200">{rejectedSuggestion}</div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setDraft(prev => ({ ...prev, [category]: rejectedSuggestion }))}
+                          className="px-2 py-0.5 rounded border border-amber-300 dark:border-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                        >
+                          {t('needsReview.use')}
+                        </button>
+                        <button
+                          onClick={() => onDismissNeedsReview(formKey, targetLang)}
+                          className="px-2 py-0.5 rounded hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                        >
+                          {t('needsReview.dismiss')}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  {placeholderIssues[category].map((issue, index) => (
+                    <div key={index} className="flex items-center gap-1 text-[11px] text-amber-600 dark:text-amber-400">
+                      <AlertTriangle className="w-3 h-3 shrink-0" /> {describePlaceholderIssue(issue, t)}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PluralKeyEditor;
@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Edit, Settings2, Sparkles, Wand2 } from 'lucide-react';
+import { Language, QaRuleId, QaRules } from '../types';
+import {
+  QA_RULES,
+  QaFinding,
+  applyQaFix,
+  describeQaIssue,
+  fixTranslation,
+  isQaFixable,
+  resolveQaSettings
+} from '../services/qa';
+import { useI18n } from '../services/i18n';
+
+interface QaViewProps {
+  findings: QaFinding[];
+  languages: Language[];
+  sourceLangCode: string;
+  lockedLangCodes: string[];
+  qaRules: QaRules;
+  onQaRulesChange: (next: QaRules) => void;
+  onApplyFixes: (fixes: Array<{ key: string; lang: string; value: string }>) => void;
+  onTranslate: (keyIds: string[], langCodes: string[]) => Promise<{ ok: boolean; error?: string }>;
+  onOpenKey: (keyId: string, langCode: string) => void;
+}
+
+const PAGE_SIZE = 100;
+
+const QaView: React.FC<QaViewProps> = ({
+  findings,
+  languages,
+  sourceLangCode,
+  lockedLangCodes,
+  qaRules,
+  onQaRulesChange,
+  onApplyFixes,
+  onTranslate,
+  onOpenKey
+}) => {
+  const t = useI18n();
+  const [langFilter, setLangFilter] = useState('');
+  const [ruleFilter, setRuleFilter] = useState<QaRuleId | ''>('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [showRules, setShowRules] = useState(false);
+  const [scope, setScope] = useState('*');
+  const [ratioDraft, setRatioDraft] = useState('');
+  const [termsDraft, setTermsDraft] = useState('');
+  const [translating, setTranslating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetLanguages = languages.filter(lang => lang.code !== sourceLangCode);
+  const scopeSettings = resolveQaSettings(qaRules, scope);
+  const ownSettings = qaRules[scope] || {};
+
+  useEffect(() => {
+    setRatioDraft(String(scopeSettings.maxLengthRatio));
+    setTermsDraft((ownSettings.forbiddenTerms || []).join('\n'));
+  }, [scope, qaRules]);
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [langFilter, ruleFilter]);
+
+  const filtered = findings.filter(
+    finding => (!langFilter || finding.lang === langFilter) && (!ruleFilter || finding.rule === ruleFilter)
+  );
+  const countBy = (predicate: (finding: QaFinding) => boolean) => findings.filter(predicate).length;
+
+  // One fix per cell; with a rule filter only that rule is fixed.
+  const collectFixes = (items: QaFinding[]) => {
+    const fixes = new Map<string, { key: string; lang: string; value: string }>();
+    items
+      .filter(finding => isQaFixable(finding.rule) && !lockedLangCodes.includes(finding.lang))
+      .forEach(finding => {
+        const cell = `${finding.keyId}\u0000${finding.lang}`;
+        if (fixes.has(cell)) return;
+        const value = ruleFilter
+          ? applyQaFix(ruleFilter, finding.source, finding.translation)
+          : fixTranslation(finding.source, finding.translation, resolveQaSettings(qaRules, finding.lang));
+        if (value !== finding.translation) fixes.set(cell, { key: finding.keyId, lang: finding.lang, value });
+      });
+    return Array.from(fixes.values());
+  };
+  const allFixes = collectFixes(filtered);
+
+  const updateScope = (patch: Partial<QaRules[string]>) => {
+    onQaRulesChange({ ...qaRules, [scope]: { ...ownSettings, ...patch } });
+  };
+
+  const resetScope = () => {
+    const { [scope]: _removed, ...rest } = qaRules;
+    onQaRulesChange(rest);
+  };
+
+  const commitRatio = () => {
+    const ratio = Number(ratioDraft);
+    if (!Number.isFinite(ratio) || ratio < 1) {
+      setRatioDraft(String(scopeSettings.maxLengthRatio));
+      return;
+    }
+    if (ratio !== scopeSettings.maxLengthRatio) updateScope({ maxLengthRatio: ratio });
+  };
+
+  const commitTerms = () => {
+    const terms = termsDraft.split('\n').map(term => term.trim()).filter(Boolean);
+    if (terms.join('\n') !== (ownSettings.forbiddenTerms || []).join('\n')) updateScope({ forbiddenTerms: terms });
+  };
+
+  const handleTranslate = async (finding: QaFinding) => {
+    setTranslating(`${finding.rowId}\u0000${finding.lang}`);
+    setError(null);
+    const result = await onTranslate([finding.rowId], [finding.lang]);
+    if (!result.ok && result.error) setError(result.error);
+    setTranslating(null);
+  };
+
+  const renderText = (text: string) => (
+    <span className="font-mono whitespace-pre-wrap break-words bg-gray-100 dark:bg-gray-700/60 rounded px-1">{text}</span>
+  );
+
+  const selectClassName =
+    'appearance-none bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 py-2 pl-3 pr-8 rounded-lg leading-tight focus:outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-sm cursor-pointer';
+
+  return (
+    <div className="space-y-6 animate-fade-in text-gray-900 dark:text-gray-100">
+      <header className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">{t('qa.title')}</h1>
+          <p className="text-gray-500 dark:text-gray-400">{t('qa.subtitle', { count: findings.length })}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setShowRules(prev => !prev)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <Settings2 className="w-4 h-4" /> {t('qa.rules')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onApplyFixes(allFixes)}
+            disabled={allFixes.length === 0}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Wand2 className="w-4 h-4" /> {t('qa.fixAll', { count: allFixes.length })}
+          </button>
+        </div>
+      </header>
+
+      {showRules && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              {t('qa.rules.scope')}
+            </span>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              className="bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-800 dark:text-gray-200 py-1.5 pl-3 pr-3 rounded-lg text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="*">{t('qa.rules.allLanguages')}</option>
+              {targetLanguages.map(lang => (
+                <option key={lang.code} value={lang.code}>
+                  {lang.name || lang.code}
+                </option>
+              ))}
+            </select>
+            {qaRules[scope] && (
+              <button type="button" onClick={resetScope} className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline">
+                {scope === '*' ? t('qa.rules.resetDefaults') : t('qa.rules.resetLanguage')}
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {QA_RULES.map(rule => (
+              <label key={rule} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={scopeSettings.rules[rule]}
+                  onChange={(e) => updateScope({ rules: { ...ownSettings.rules, [rule]: e.target.checked } })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="font-medium">{t(`qa.rule.${rule}`)}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{t(`qa.rule.${rule}.help`)}</span>
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm">
+              <span className="font-medium">{t('qa.rules.maxLengthRatio')}</span>
+              <input
+                type="number"
+                min={1}
+                step={0.5}
+                value={ratioDraft}
+                onChange={(e) => setRatioDraft(e.target.value)}
+                onBlur={commitRatio}
+                className="mt-1 w-32 block px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium">{t('qa.rules.forbiddenTerms')}</span>
+              <textarea
+                value={termsDraft}
+                onChange={(e) => setTermsDraft(e.target.value)}
+                onBlur={commitTerms}
+                rows={3}
+                placeholder={t('qa.rules.forbiddenTermsPlaceholder')}
+                className="mt-1 w-full block px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 font-mono text-xs"
+              />
+              {scope !== '*' && (qaRules['*']?.forbiddenTerms || []).length > 0 && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {t('qa.rules.inheritedTerms', { terms: (qaRules['*']?.forbiddenTerms || []).join(', ') })}
+                </span>
+              )}
+            </label>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative">
+          <select value={langFilter} onChange={(e) => setLangFilter(e.target.value)} className={selectClassName}>
+            <option value="">{t('qa.filter.allLanguages', { count: findings.length })}</option>
+            {targetLanguages.map(lang => (
+              <option key={lang.code} value={lang.code}>
+                {lang.name || lang.code} ({countBy(finding => finding.lang === lang.code)})
+              </option>
+            ))}
+          </select>
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-500 dark:text-gray-400">
+            <ChevronDown className="h-4 w-4" />
+          </div>
+        </div>
+        <div className="relative">
+          <select value={ruleFilter} onChange={(e) => setRuleFilter(e.target.value as QaRuleId | '')} className={selectClassName}>
+            <option value="">{t('qa.filter.allRules')}</option>
+            {QA_RULES.map(rule => (
+              <option key={rule} value={rule}>
+                {t(`qa.rule.${rule}`)} ({countBy(finding => finding.rule === rule)})
+              </option>
+            ))}
+          </select>
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-500 dark:text-gray-400">
+            <ChevronDown className="h-4 w-4" />
+          </div>
+        </div>
+        {error && <span className="text-sm text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+        {filtered.length === 0 && (
+          <div className="p-6 text-sm text-gray-500 dark:text-gray-400">{t('qa.empty')}</div>
+        )}
+        {filtered.slice(0, visibleCount).map((finding, index) => {
+          const isLocked = lockedLangCodes.includes(finding.lang);
+          const fixed = isQaFixable(finding.rule) ? applyQaFix(finding.rule, finding.source, finding.translation) : null;
+          return (
+            <div key={`${finding.keyId}:${finding.lang}:${finding.rule}:${index}`} className="p-4 flex flex-wrap items-start justify-between gap-3">
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => onOpenKey(finding.rowId, finding.lang)}
+                    className="font-mono text-indigo-600 dark:text-indigo-400 hover:underline break-all"
+                  >
+                    {finding.keyId}
+                  </button>
+                  <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">{finding.lang}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 text-[10px] font-semibold uppercase tracking-wide">
+                    {t(`qa.rule.${finding.rule}`)}
+                  </span>
+                  <span className="text-gray-700 dark:text-gray-200">{describeQaIssue(finding, t)}</span>
+                </div>
+                <div className="text-xs text-gray-600 dark:text-gray-300 space-y-0.5">
+                  <div>{renderText(finding.source)}</div>
+                  <div>{renderText(finding.translation)}</div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-xs">
+                {fixed !== null && fixed !== finding.translation && (
+                  <button
+                    type="button"
+                    onClick={() => onApplyFixes([{ key: finding.keyId, lang: finding.lang, value: fixed }])}
+                    disabled={isLocked}
+                    title={fixed}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-indigo-200 dark:border-indigo-700 text-indigo-600 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-40"
+                  >
+                    <Wand2 className="w-3 h-3" /> {t('qa.fix')}
+                  </button>
+                )}
+                {finding.rule === 'identical' && (
+                  <button
+                    type="button"
+                    onClick={() => handleTranslate(finding)}
+                    disabled={isLocked || translating !== null}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-gray-200 dark:border-gray-600 hover:bg-purple-50 dark:hover:bg-purple-900/30 hover:text-purple-700 dark:hover:text-purple-300 disabled:opacity-40"
+                  >
+                    <Sparkles className="w-3 h-3" />
+                    {translating === `${finding.rowId}\u0000${finding.lang}` ? t('editor.autoTranslating') : t('qa.translate')}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onOpenKey(finding.rowId, finding.lang)}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <Edit className="w-3 h-3" /> {t('qa.open')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {filtered.length > visibleCount && (
+          <div className="p-4 text-center">
+            <button
+              type="button"
+              onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {t('qa.showMore', { count: filtered.length - visibleCount })}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QaView;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+export interface RenameKeyOptions {
+  subtree: boolean;
+  updateUsages: boolean;
+}
+
+interface RenameKeyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (from: string, to: string, options: RenameKeyOptions) => void;
+  keyName: string;
+}
+
+const RenameKeyModal: React.FC<RenameKeyModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  keyName
+}) => {
+  const t = useI18n();
+  const [from, setFrom] = useState(keyName);
+  const [to, setTo] = useState(keyName);
+  const [subtree, setSubtree] = useState(false);
+  const [updateUsages, setUpdateUsages] = useState(false);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setFrom(keyName);
+    setTo(keyName);
+    setSubtree(false);
+    setUpdateUsages(false);
+  }, [isOpen, keyName]);
+
+  if (!isOpen) return null;
+
+  const canSubmit = from.trim() && to.trim() && from.trim() !== to.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onConfirm(from.trim(), to.trim(), { subtree, updateUsages });
+    onClose();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md animate-fade-in border border-gray-200 dark:border-gray-700">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white">{t('renameKey.title')}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {subtree ? t('renameKey.fromPrefix') : t('renameKey.from')}
+            </label>
+            <input
+              type="text"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              readOnly={!subtree}
+              className={`${inputClass} ${subtree ? '' : 'opacity-70'}`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {subtree ? t('renameKey.toPrefix') : t('renameKey.to')}
+            </label>
+            <input
+              type="text"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className={inputClass}
+              autoFocus
+            />
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={subtree}
+              onChange={(e) => {
+                setSubtree(e.target.checked);
+                if (!e.target.checked) setFrom(keyName);
+              }}
+              className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>
+              {t('renameKey.subtree')}
+              <span className="block text-xs text-gray-500 dark:text-gray-400">{t('renameKey.subtreeHelp')}</span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={updateUsages}
+              onChange={(e) => setUpdateUsages(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>
+              {t('renameKey.updateUsages')}
+              <span className="block text-xs text-gray-500 dark:text-gray-400">{t('renameKey.updateUsagesHelp')}</span>
+            </span>
+          </label>
+
+          <div className="flex gap-3 justify-end pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+            >
+              {t('renameKey.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('renameKey.confirm')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RenameKeyModal;
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { Search, ArrowRight } from 'lucide-react';
+import { CatalogInfo, SharedKey } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface SharedKeysProps {
+  sharedKeys: SharedKey[];
+  catalogs: CatalogInfo[];
+  activeCatalog: string | null;
+  onOpenKey: (catalogId: string, key: string) => void;
+}
+
+const hasDifferentSources = (entry: SharedKey) =>
+  new Set(Object.values(entry.sources)).size > 1;
+
+const SharedKeys: React.FC<SharedKeysProps> = ({ sharedKeys, catalogs, activeCatalog, onOpenKey }) => {
+  const t = useI18n();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [onlyDifferent, setOnlyDifferent] = useState(false);
+
+  const catalogNames = useMemo(
+    () => Object.fromEntries(catalogs.map(catalog => [catalog.id, catalog.name])),
+    [catalogs]
+  );
+
+  const filtered = sharedKeys.filter(entry => {
+    if (onlyDifferent && !hasDifferentSources(entry)) return false;
+    const term = searchTerm.trim().toLowerCase();
+    return !term || entry.key.toLowerCase().includes(term);
+  });
+  const differentCount = sharedKeys.filter(hasDifferentSources).length;
+
+  return (
+    <div className="space-y-6 animate-fade-in text-gray-900 dark:text-gray-100">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-white">{t('shared.title')}</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          {t('shared.subtitle', { count: sharedKeys.length, different: differentCount })}
+        </p>
+      </header>
+
+      <div className="flex flex-col md:flex-row gap-3 md:items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder={t('shared.search')}
+            className="w-full pl-9 pr-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={onlyDifferent}
+            onChange={(e) => setOnlyDifferent(e.target.checked)}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          {t('shared.onlyDifferent')}
+        </label>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+        {filtered.length === 0 && (
+          <div className="p-6 text-sm text-gray-500 dark:text-gray-400">{t('shared.empty')}</div>
+        )}
+        {filtered.map(entry => {
+          const different = hasDifferentSources(entry);
+          return (
+            <div key={entry.key} className="p-4 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <code className="text-sm font-mono text-indigo-600 dark:text-indigo-400 break-all">{entry.key}</code>
+                <span
+                  className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                    different
+                      ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300'
+                      : 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300'
+                  }`}
+                >
+                  {different ? t('shared.different') : t('shared.same')}
+                </span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {Object.entries(entry.sources).map(([catalogId, source]) => (
+                  <button
+                    key={catalogId}
+                    type="button"
+                    onClick={() => onOpenKey(catalogId, entry.key)}
+                    className={`text-left rounded-lg border px-3 py-2 transition-colors hover:border-indigo-400 ${
+                      catalogId === activeCatalog
+                        ? 'border-indigo-200 dark:border-indigo-700 bg-indigo-50/50 dark:bg-indigo-900/20'
+                        : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                    title={t('shared.open')}
+                  >
+                    <div className="flex items-center justify-between gap-2 text-xs font-semibold text-gray-500 dark:text-gray-400">
+                      <span className="truncate">{catalogNames[catalogId] || catalogId}</span>
+                      <ArrowRight className="w-3 h-3 flex-shrink-0" />
+                    </div>
+                    <div className="mt-1 text-sm text-gray-800 dark:text-gray-100 break-words">
+                      {source || <span className="italic text-gray-400">{t('shared.emptyValue')}</span>}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SharedKeys;
@@ -1,15 +1,23 @@
-﻿import React, { useState, useEffect } from 'react';
+﻿import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { TranslationKey, TranslationValue, Language } from '../types';
-import { ArrowLeft, Save, Sparkles, Layers, Bold, Italic, Link as LinkIcon, List, AlertTriangle } from 'lucide-react';
-import { translateText } from '../services/geminiService';
+import { ArrowLeft, Save, Sparkles, Layers, Bold, Italic, Link as LinkIcon, List, AlertTriangle, History, CopyPlus, Braces } from 'lucide-react';
+import { PlaceholderRepairError, translateText } from '../services/geminiService';
 import { buildToonPrompt, estimateTokenCount } from '../services/toonPrompt';
 import { estimateOpenAiCost, formatUsd } from '../services/openAiPricing';
+import { hasIcuSyntax, validateIcu } from '../services/icu';
+import { checkPlaceholders, describePlaceholderIssue } from '../services/placeholders';
 import { useI18n } from '../services/i18n';
+import DuplicateKeyModal from './DuplicateKeyModal';
+import IcuEditor from './IcuEditor';
+import IcuPreview from './IcuPreview';
 
 interface TranslationEditorProps {
   keyData: TranslationKey;
   allValues: TranslationValue;
+  // Rejected AI output per language, see NeedsReviewState.
+  needsReview: Record<string, string>;
+  comments: Record<string, string>;
   targetLang: string;
   sourceLang: string;
   languages: Language[];
@@ -23,13 +31,19 @@ interface TranslationEditorProps {
     targetLangCode: string;
   }) => void;
   onSave: (keyId: string, langCode: string, value: string, options?: { stay?: boolean }) => void;
+  onMarkNeedsReview: (keyId: string, langCode: string, suggestion: string) => void;
+  onDismissNeedsReview: (keyId: string, langCode: string) => void;
   onChangeTarget: (nextLang: string, currentValue: string) => void;
+  onShowHistory: () => void;
+  onDuplicateKey: (from: string, to: string, clearTargets: boolean) => void;
   onCancel: () => void;
 }
 
 const TranslationEditor: React.FC<TranslationEditorProps> = ({ 
   keyData, 
   allValues, 
+  needsReview,
+  comments,
   targetLang,
   sourceLang,
   languages,
@@ -37,7 +51,11 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
   openAiModel,
   onRecordTokenUsage,
   onSave,
+  onMarkNeedsReview,
+  onDismissNeedsReview,
   onChangeTarget,
+  onShowHistory,
+  onDuplicateKey,
   onCancel 
 }) => {
   const t = useI18n();
@@ -46,9 +64,15 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
   
   const [value, setValue] = useState(initialValue);
   const [isTranslating, setIsTranslating] = useState(false);
+  const [duplicateModalOpen, setDuplicateModalOpen] = useState(false);
   const [isBulkTranslating, setIsBulkTranslating] = useState(false);
   const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [icuMode, setIcuMode] = useState<'structured' | 'text'>('structured');
+  const [confirmPlaceholders, setConfirmPlaceholders] = useState(false);
+  // Stored value the draft started from, and the stored value that replaced it while the draft had edits.
+  const baseValue = useRef(initialValue);
+  const [diskValue, setDiskValue] = useState<string | null>(null);
 
   const targetLangObj = languages.find(l => l.code === targetLang);
   const sourceLangObj = languages.find(l => l.code === sourceLang);
@@ -84,14 +108,59 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
     missingCompletionTokens,
     openAiModel
   );
+  const commentEntries = Object.entries(comments).filter(([, comment]) => comment.trim().length > 0);
   const formatNumber = (value: number) => value.toLocaleString();
   const isBusy = isTranslating || isBulkTranslating;
+  const isIcu = hasIcuSyntax(value) || hasIcuSyntax(sourceText);
+  const showStructured = isIcu && icuMode === 'structured';
+  const placeholderIssues = targetLang === sourceLang ? [] : checkPlaceholders(sourceText, value);
+  const rejectedSuggestion = needsReview[targetLang];
 
   useEffect(() => {
     // Reset when mounting new key
-    setValue(allValues[targetLang] || '');
+    baseValue.current = initialValue;
+    setValue(initialValue);
+    setDiskValue(null);
     setError(null);
-  }, [keyData.id, targetLang, allValues]);
+  }, [keyData.id, targetLang]);
+
+  useEffect(() => {
+    // The stored value changed underneath the editor (disk, undo, another view): take it over
+    // an untouched draft, but never replace edits silently.
+    const previous = baseValue.current;
+    if (initialValue === previous) return;
+    baseValue.current = initialValue;
+    if (value === previous || value === initialValue) {
+      setValue(initialValue);
+      setDiskValue(null);
+    } else {
+      setDiskValue(initialValue);
+    }
+  }, [initialValue]);
+
+  useEffect(() => {
+    setConfirmPlaceholders(false);
+  }, [value]);
+
+  const handleSave = () => {
+    if (isIcu) {
+      const blocking = validateIcu(value, targetLang).find(issue => issue.severity === 'error');
+      if (blocking) {
+        setError(t(`icu.error.${blocking.code}`, {
+          argument: blocking.argument || '',
+          categories: (blocking.categories || []).join(', '),
+          offset: blocking.offset ?? 0
+        }));
+        return;
+      }
+    }
+    // Broken placeholders are allowed, but only after the warning has been seen once.
+    if (placeholderIssues.length > 0 && !confirmPlaceholders) {
+      setConfirmPlaceholders(true);
+      return;
+    }
+    onSave(keyData.id, targetLang, value);
+  };
 
   const handleTargetChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     onChangeTarget(event.target.value, value);
@@ -121,7 +190,13 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
       );
       setValue(translated);
     } catch (err) {
-      setError(t('editor.error.ai'));
+      if (err instanceof PlaceholderRepairError) {
+        // Shown with its placeholder warnings; saving it still needs a second click.
+        setValue(err.translation);
+        setError(t('placeholders.repairFailed'));
+      } else {
+        setError(t('editor.error.ai'));
+      }
     } finally {
       setIsTranslating(false);
     }
@@ -153,13 +228,18 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
             targetLangCode: lang.code,
             onUsage: onRecordTokenUsage
           }
-        );
+        ).catch(err => {
+          if (!(err instanceof PlaceholderRepairError)) throw err;
+          onMarkNeedsReview(keyData.id, lang.code, err.translation);
+          return null;
+        });
 
-        if (lang.code === targetLang) {
-          setValue(translated);
+        if (translated !== null) {
+          if (lang.code === targetLang) {
+            setValue(translated);
+          }
+          onSave(keyData.id, lang.code, translated, { stay: true });
         }
-
-        onSave(keyData.id, lang.code, translated, { stay: true });
         setBulkProgress({ done: index + 1, total: missingTargets.length });
       }
     } catch (err) {
@@ -195,6 +275,20 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
           </div>
         </div>
         <div className="flex gap-2">
+          <button 
+            onClick={() => setDuplicateModalOpen(true)}
+            title={t('editor.duplicate')}
+            className="p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <CopyPlus className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={onShowHistory}
+            title={t('editor.history')}
+            className="p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <History className="w-5 h-5" />
+          </button>
           <button 
             onClick={onCancel}
             className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg font-medium transition-colors"
@@ -202,10 +296,10 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
             {t('editor.cancel')}
           </button>
           <button 
-            onClick={() => onSave(keyData.id, targetLang, value)}
+            onClick={handleSave}
             className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:hover:bg-indigo-500 text-white rounded-lg font-medium transition-colors flex items-center gap-2 shadow-sm"
           >
-            <Save className="w-4 h-4" /> {t('editor.save')}
+            <Save className="w-4 h-4" /> {confirmPlaceholders ? t('placeholders.saveAnyway') : t('editor.save')}
           </button>
         </div>
       </div>
@@ -298,11 +392,43 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
             </div>
           </div>
 
+          {commentEntries.length > 0 && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/40 rounded-xl p-4 transition-colors max-h-[25vh] overflow-y-auto custom-scrollbar">
+              <h3 className="text-xs font-semibold text-amber-700 dark:text-amber-300 uppercase tracking-wider mb-2">
+                {t('editor.comments')}
+              </h3>
+              <div className="space-y-2">
+                {commentEntries.map(([code, comment]) => (
+                  <div key={code} className="text-sm text-gray-800 dark:text-gray-200">
+                    <span className="text-xs font-semibold text-amber-700 dark:text-amber-300 mr-2">
+                      {languages.find(lang => lang.code === code)?.name || code}
+                    </span>
+                    <span className="whitespace-pre-wrap">{comment}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Editor Panel */}
           <div className="flex-1 flex flex-col bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm overflow-hidden focus-within:ring-2 focus-within:ring-indigo-500 dark:focus-within:ring-indigo-400 transition-all">
             {/* Toolbar */}
             <div className="bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 p-2 flex items-center justify-between">
               <div className="flex items-center gap-1">
+                {isIcu && (
+                  <button
+                    onClick={() => setIcuMode(prev => (prev === 'structured' ? 'text' : 'structured'))}
+                    className={`mr-1 text-xs flex items-center gap-1 px-2 py-1 rounded border transition-colors ${
+                      showStructured
+                        ? 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800'
+                        : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+                    }`}
+                    title={t('icu.toggleHelp')}
+                  >
+                    <Braces className="w-3 h-3" />
+                    {showStructured ? t('icu.textMode') : t('icu.structuredMode')}
+                  </button>
+                )}
                 <button onClick={() => insertMarkdown('**bold**')} className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors" title={t('editor.toolbar.bold')}><Bold className="w-4 h-4" /></button>
                 <button onClick={() => insertMarkdown('*italic*')} className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors" title={t('editor.toolbar.italic')}><Italic className="w-4 h-4" /></button>
                 <button onClick={() => insertMarkdown('[text](url)')} className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors" title={t('editor.toolbar.link')}><LinkIcon className="w-4 h-4" /></button>
@@ -342,12 +468,82 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
                </div>
             )}
 
-            <textarea
-              value={value}
-              onChange={(e) => setValue(e.target.value)}
-              placeholder={t('editor.placeholder')}
-              className="flex-1 w-full p-4 resize-none outline-none font-mono text-sm bg-transparent text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-600"
-            />
+            {diskValue !== null && (
+              <div className="bg-rose-50 dark:bg-rose-900/20 text-rose-800 dark:text-rose-300 text-xs px-3 py-2 border-b border-rose-100 dark:border-rose-900/30 space-y-2">
+                <div className="flex items-center gap-2 font-semibold">
+                  <AlertTriangle className="w-3 h-3 shrink-0" /> {t('app.externalConflict.title', { count: 1 })}
+                </div>
+                <div>{t('app.externalConflict.detail', { local: value, incoming: diskValue })}</div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setDiskValue(null)}
+                    className="px-2 py-1 rounded border border-rose-300 dark:border-rose-700 hover:bg-rose-100 dark:hover:bg-rose-900/40"
+                  >
+                    {t('app.externalConflict.keepMine')}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setValue(diskValue);
+                      setDiskValue(null);
+                    }}
+                    className="px-2 py-1 rounded hover:bg-rose-100 dark:hover:bg-rose-900/40"
+                  >
+                    {t('app.externalConflict.useDisk')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {rejectedSuggestion !== undefined && (
+              <div className="bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-xs px-3 py-2 border-b border-amber-100 dark:border-amber-900/30 space-y-2">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="w-3 h-3 shrink-0" /> {t('needsReview.rejected')}
+                </div>
+                <div className="font-mono whitespace-pre-wrap text-gray-700 dark:text-gray-200">{rejectedSuggestion}</div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setValue(rejectedSuggestion)}
+                    className="px-2 py-1 rounded border border-amber-300 dark:border-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                  >
+                    {t('needsReview.use')}
+                  </button>
+                  <button
+                    onClick={() => onDismissNeedsReview(keyData.id, targetLang)}
+                    className="px-2 py-1 rounded hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                  >
+                    {t('needsReview.dismiss')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {showStructured ? (
+              <IcuEditor
+                value={value}
+                sourceValue={sourceText}
+                langCode={targetLang}
+                langName={targetLangObj?.name || targetLang}
+                onChange={setValue}
+              />
+            ) : (
+              <textarea
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={t('editor.placeholder')}
+                className="flex-1 w-full p-4 resize-none outline-none font-mono text-sm bg-transparent text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-600"
+              />
+            )}
+
+            {placeholderIssues.length > 0 && (
+              <div className="bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-xs px-3 py-2 border-t border-amber-100 dark:border-amber-900/30 space-y-1">
+                {confirmPlaceholders && <div className="font-semibold">{t('placeholders.confirmSave')}</div>}
+                {placeholderIssues.map((issue, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <AlertTriangle className="w-3 h-3 shrink-0" /> {describePlaceholderIssue(issue, t)}
+                  </div>
+                ))}
+              </div>
+            )}
             
             <div className="bg-gray-50 dark:bg-gray-900 px-3 py-1 text-xs text-gray-400 dark:text-gray-500 border-t border-gray-100 dark:border-gray-700 text-right">
               {t('editor.characters', { count: value.length })}
@@ -362,7 +558,9 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
                {t('editor.preview')}
              </h3>
              <div className="p-6 overflow-y-auto custom-scrollbar flex-1 min-h-0 prose prose-sm max-w-none prose-indigo dark:prose-invert">
-                {value ? (
+                {value && isIcu ? (
+                  <IcuPreview message={value} langCode={targetLang} />
+                ) : value ? (
                   <ReactMarkdown>{value}</ReactMarkdown>
                 ) : (
                   <p className="text-gray-400 dark:text-gray-600 italic">{t('editor.preview.empty')}</p>
@@ -372,6 +570,13 @@ const TranslationEditor: React.FC<TranslationEditorProps> = ({
         </div>
 
       </div>
+      <DuplicateKeyModal
+        isOpen={duplicateModalOpen}
+        onClose={() => setDuplicateModalOpen(false)}
+        onConfirm={onDuplicateKey}
+        keyName={keyData.id}
+        sourceLangName={sourceLangName}
+      />
     </div>
   );
 };
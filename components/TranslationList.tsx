@@ -1,12 +1,16 @@
-﻿import React, { useEffect, useRef, useState } from 'react';
+﻿import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { TranslationKey, TranslationValue, Language } from '../types';
-import { Search, Plus, Columns, List, Keyboard, ChevronDown, Sparkles } from 'lucide-react';
+import { Search, Plus, Columns, List, Keyboard, ChevronDown, Sparkles, ScanSearch, Trash2, AlertTriangle } from 'lucide-react';
 import CreateKeyModal from './CreateKeyModal';
 import QuickAddModal from './QuickAddModal';
 import TranslateAllModal from './TranslateAllModal';
 import TranslationTable from './TranslationTable';
+import { RenameKeyOptions } from './RenameKeyModal';
+import BulkActionBar from './BulkActionBar';
 import { useI18n } from '../services/i18n';
-import { TranslateAllEstimate } from '../types';
+import { getKeyTexts, isKeyTranslated } from '../services/pluralKeys';
+import { buildPlaceholderReport, rowNeedsReview } from '../services/placeholders';
+import { BulkAction, NeedsReviewState, ReviewState, TranslateAllEstimate, UsageScan } from '../types';
 
 interface TranslationListProps {
   keys: TranslationKey[];
@@ -19,8 +23,20 @@ interface TranslationListProps {
   onSearchModeChange: (value: 'key' | 'content' | 'all') => void;
   completionSort: 'none' | 'asc' | 'desc';
   onCompletionSortChange: (value: 'none' | 'asc' | 'desc') => void;
+  usageFilter: 'all' | 'unused';
+  onUsageFilterChange: (value: 'all' | 'unused') => void;
+  placeholderFilter: 'all' | 'issues';
+  onPlaceholderFilterChange: (value: 'all' | 'issues') => void;
+  needsReview: NeedsReviewState;
+  usageScan: UsageScan | null;
+  isScanningUsages: boolean;
+  onScanUsages: () => void;
+  onDeleteUnused: (keyIds: string[]) => void;
   selectedLang: string;
   onSelectedLangChange: (value: string) => void;
+  namespaces: string[];
+  selectedNamespace: string;
+  onSelectedNamespaceChange: (value: string) => void;
   viewMode: 'single' | 'grid';
   onViewModeChange: (value: 'single' | 'grid') => void;
   isQuickEditMode: boolean;
@@ -36,7 +52,17 @@ interface TranslationListProps {
   onEdit: (keyId: string, langCode: string) => void;
   onAddKey: (keyName: string, initialValue: string) => void;
   onDeleteKey: (keyId: string) => void;
+  onRenameKey: (from: string, to: string, options: RenameKeyOptions) => void;
+  onDuplicateKey: (from: string, to: string, clearTargets: boolean) => void;
   onUpdateValue: (keyId: string, langCode: string, newValue: string) => void;
+  lockedLangCodes: string[];
+  reviewed: ReviewState;
+  onBulkAction: (keyIds: string[], action: BulkAction) => void;
+  onBulkTranslate: (
+    keyIds: string[],
+    langCodes: string[],
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<{ ok: boolean; error?: string }>;
   onQuickAdd: (
     keyName: string,
     sourceValue: string,
@@ -55,8 +81,20 @@ const TranslationList: React.FC<TranslationListProps> = ({
   onSearchModeChange,
   completionSort,
   onCompletionSortChange,
+  usageFilter,
+  onUsageFilterChange,
+  placeholderFilter,
+  onPlaceholderFilterChange,
+  needsReview,
+  usageScan,
+  isScanningUsages,
+  onScanUsages,
+  onDeleteUnused,
   selectedLang,
   onSelectedLangChange,
+  namespaces,
+  selectedNamespace,
+  onSelectedNamespaceChange,
   viewMode,
   onViewModeChange,
   isQuickEditMode,
@@ -70,7 +108,13 @@ const TranslationList: React.FC<TranslationListProps> = ({
   onEdit,
   onAddKey,
   onDeleteKey,
+  onRenameKey,
+  onDuplicateKey,
   onUpdateValue,
+  lockedLangCodes,
+  reviewed,
+  onBulkAction,
+  onBulkTranslate,
   onQuickAdd
 }) => {
   const t = useI18n();
@@ -78,7 +122,9 @@ const TranslationList: React.FC<TranslationListProps> = ({
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isQuickAddOpen, setIsQuickAddOpen] = useState(false);
   const [isTranslateAllOpen, setIsTranslateAllOpen] = useState(false);
-  const filterRef = useRef({ searchTerm, searchMode, completionSort });
+  const [selectedKeyIds, setSelectedKeyIds] = useState<string[]>([]);
+  const [isConfirmingUnusedDelete, setIsConfirmingUnusedDelete] = useState(false);
+  const filterRef = useRef({ searchTerm, searchMode, completionSort, selectedNamespace, usageFilter, placeholderFilter });
 
   // Default selected lang logic
   const availableTargets = languages.filter(l => l.code !== sourceLangCode);
@@ -93,12 +139,12 @@ const TranslationList: React.FC<TranslationListProps> = ({
     .filter(lang => lang.code !== sourceLangCode)
     .map(lang => lang.code);
 
-  const getCompletionPercent = (keyId: string) => {
+  const getCompletionPercent = (key: TranslationKey) => {
     if (targetLangCodes.length === 0) return 100;
-    const translatedCount = targetLangCodes.reduce((acc, code) => {
-      const currentValue = values[keyId]?.[code] || '';
-      return currentValue.trim().length > 0 ? acc + 1 : acc;
-    }, 0);
+    const translatedCount = targetLangCodes.reduce(
+      (acc, code) => (isKeyTranslated(key, values, code) ? acc + 1 : acc),
+      0
+    );
     return Math.round((translatedCount / targetLangCodes.length) * 100);
   };
 
@@ -107,19 +153,38 @@ const TranslationList: React.FC<TranslationListProps> = ({
     const keyMatch = key.key.toLowerCase().includes(normalizedSearch);
     if (searchMode === 'key') return keyMatch;
 
-    const contentMatch = languages.some(lang => {
-      const value = values[key.id]?.[lang.code] || '';
-      return value.toLowerCase().includes(normalizedSearch);
-    });
+    const contentMatch = languages.some(lang =>
+      getKeyTexts(key, values, lang.code).some(value => value.toLowerCase().includes(normalizedSearch))
+    );
 
     if (searchMode === 'content') return contentMatch;
     return keyMatch || contentMatch;
   };
 
-  const filteredKeys = keys.filter(matchesSearch);
+  const activeNamespace = namespaces.includes(selectedNamespace) ? selectedNamespace : '';
+  const matchesNamespace = (key: TranslationKey) =>
+    !activeNamespace || key.key.startsWith(`${activeNamespace}:`);
+
+  const unusedKeys = new Set(usageScan?.unusedKeys ?? []);
+  const showUnusedOnly = usageFilter === 'unused' && usageScan !== null;
+  const matchesUsage = (key: TranslationKey) => !showUnusedOnly || unusedKeys.has(key.key);
+
+  const placeholderReport = useMemo(
+    () => buildPlaceholderReport(keys, values, sourceLangCode, targetLangCodes),
+    [keys, values, sourceLangCode, languages]
+  );
+  // Cells whose AI output was parked for review count as placeholder issues too.
+  const hasPlaceholderIssues = (key: TranslationKey) =>
+    Boolean(placeholderReport[key.id]) || rowNeedsReview(key, needsReview);
+  const placeholderIssueCount = keys.filter(hasPlaceholderIssues).length;
+  const matchesPlaceholders = (key: TranslationKey) => placeholderFilter === 'all' || hasPlaceholderIssues(key);
+
+  const filteredKeys = keys.filter(key =>
+    matchesNamespace(key) && matchesSearch(key) && matchesUsage(key) && matchesPlaceholders(key)
+  );
   const sortedKeys = [...filteredKeys].sort((a, b) => {
     if (completionSort === 'none') return 0;
-    const delta = getCompletionPercent(a.id) - getCompletionPercent(b.id);
+    const delta = getCompletionPercent(a) - getCompletionPercent(b);
     if (delta !== 0) return completionSort === 'asc' ? delta : -delta;
     return a.key.localeCompare(b.key);
   });
@@ -136,14 +201,48 @@ const TranslationList: React.FC<TranslationListProps> = ({
     const hasChanged =
       prev.searchTerm !== searchTerm ||
       prev.searchMode !== searchMode ||
-      prev.completionSort !== completionSort;
+      prev.completionSort !== completionSort ||
+      prev.selectedNamespace !== selectedNamespace ||
+      prev.usageFilter !== usageFilter ||
+      prev.placeholderFilter !== placeholderFilter;
 
     if (hasChanged && currentPage !== 1) {
       onCurrentPageChange(1);
     }
 
-    filterRef.current = { searchTerm, searchMode, completionSort };
-  }, [searchTerm, searchMode, completionSort, currentPage, onCurrentPageChange]);
+    filterRef.current = { searchTerm, searchMode, completionSort, selectedNamespace, usageFilter, placeholderFilter };
+  }, [searchTerm, searchMode, completionSort, selectedNamespace, usageFilter, placeholderFilter, currentPage, onCurrentPageChange]);
+
+  useEffect(() => {
+    setIsConfirmingUnusedDelete(false);
+  }, [usageScan, usageFilter]);
+
+  useEffect(() => {
+    setSelectedKeyIds(prev => {
+      const existing = new Set(keys.map(key => key.id));
+      const next = prev.filter(id => existing.has(id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [keys]);
+
+  const handleToggleKey = (keyId: string) => {
+    setSelectedKeyIds(prev => (prev.includes(keyId) ? prev.filter(id => id !== keyId) : [...prev, keyId]));
+  };
+
+  const handleToggleKeys = (keyIds: string[], selected: boolean) => {
+    setSelectedKeyIds(prev =>
+      selected
+        ? Array.from(new Set([...prev, ...keyIds]))
+        : prev.filter(id => !keyIds.includes(id))
+    );
+  };
+
+  const handleBulkAction = (action: BulkAction) => {
+    onBulkAction(selectedKeyIds, action);
+    if (action.kind === 'delete' || action.kind === 'move') {
+      setSelectedKeyIds([]);
+    }
+  };
 
   useEffect(() => {
     if (currentPage > totalPages) {
@@ -212,6 +311,62 @@ const TranslationList: React.FC<TranslationListProps> = ({
                  <ChevronDown className="h-4 w-4" />
                </div>
              </div>
+             {namespaces.length > 0 && (
+               <div className="relative">
+                 <select
+                   value={activeNamespace}
+                   onChange={(e) => onSelectedNamespaceChange(e.target.value)}
+                   title={t('translations.namespace.label')}
+                   className="appearance-none bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 py-2 pl-3 pr-8 rounded-lg leading-tight focus:outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-sm cursor-pointer"
+                 >
+                   <option value="">{t('translations.namespace.all')}</option>
+                   {namespaces.map(namespace => (
+                     <option key={namespace} value={namespace}>{namespace}</option>
+                   ))}
+                 </select>
+                 <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-500 dark:text-gray-400">
+                   <ChevronDown className="h-4 w-4" />
+                 </div>
+               </div>
+             )}
+             <button
+               onClick={onScanUsages}
+               disabled={isScanningUsages}
+               title={t('translations.usage.scanHelp')}
+               className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+             >
+               <ScanSearch className="w-4 h-4" />
+               {isScanningUsages ? t('translations.usage.scanning') : t('translations.usage.scan')}
+             </button>
+             {usageScan && (
+               <div className="relative">
+                 <select
+                   value={usageFilter}
+                   onChange={(e) => onUsageFilterChange(e.target.value as 'all' | 'unused')}
+                   className="appearance-none bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 py-2 pl-3 pr-8 rounded-lg leading-tight focus:outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-sm cursor-pointer"
+                 >
+                   <option value="all">{t('translations.usage.all')}</option>
+                   <option value="unused">{t('translations.usage.unused', { count: usageScan.unusedKeys.length })}</option>
+                 </select>
+                 <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-500 dark:text-gray-400">
+                   <ChevronDown className="h-4 w-4" />
+                 </div>
+               </div>
+             )}
+             {(placeholderIssueCount > 0 || placeholderFilter === 'issues') && (
+               <button
+                 onClick={() => onPlaceholderFilterChange(placeholderFilter === 'issues' ? 'all' : 'issues')}
+                 title={t('translations.placeholders.help')}
+                 className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                   placeholderFilter === 'issues'
+                     ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 border-amber-200 dark:border-amber-800'
+                     : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+                 }`}
+               >
+                 <AlertTriangle className="w-4 h-4" />
+                 {t('translations.placeholders.filter', { count: placeholderIssueCount })}
+               </button>
+             )}
           </div>
 
             <div className="flex flex-wrap items-center gap-4 w-full lg:w-auto justify-end">
@@ -293,6 +448,67 @@ const TranslationList: React.FC<TranslationListProps> = ({
         </div>
       </header>
 
+      {showUnusedOnly && usageScan && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl px-4 py-3 space-y-2 text-sm text-amber-900 dark:text-amber-100">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <span>
+              {t('translations.usage.summary', { count: usageScan.unusedKeys.length, files: usageScan.scannedFiles })}
+            </span>
+            {sortedKeys.length > 0 && !isConfirmingUnusedDelete && (
+              <button
+                onClick={() => setIsConfirmingUnusedDelete(true)}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold border border-rose-200 dark:border-rose-800 text-rose-600 dark:text-rose-400 bg-white dark:bg-gray-800 hover:bg-rose-50 dark:hover:bg-rose-900/30 transition-colors"
+              >
+                <Trash2 className="w-3.5 h-3.5" /> {t('translations.usage.delete', { count: sortedKeys.length })}
+              </button>
+            )}
+          </div>
+          {usageScan.dynamicPrefixes.length > 0 && (
+            <div className="text-xs text-amber-800 dark:text-amber-200">
+              {t('translations.usage.dynamic')}{' '}
+              <span className="font-mono">{usageScan.dynamicPrefixes.map(prefix => prefix || '*').join(', ')}</span>
+            </div>
+          )}
+          {isConfirmingUnusedDelete && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-rose-700 dark:text-rose-300">
+                {t('translations.usage.deleteConfirm', { count: sortedKeys.length })}
+              </span>
+              <button
+                onClick={() => {
+                  onDeleteUnused(sortedKeys.map(key => key.id));
+                  setIsConfirmingUnusedDelete(false);
+                }}
+                className="px-3 py-1.5 rounded-lg text-xs font-semibold text-white bg-rose-600 hover:bg-rose-700 transition-colors"
+              >
+                {t('bulk.delete')}
+              </button>
+              <button
+                onClick={() => setIsConfirmingUnusedDelete(false)}
+                className="px-3 py-1.5 rounded-lg text-xs font-semibold text-gray-600 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-amber-900/30 transition-colors"
+              >
+                {t('translations.usage.cancel')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {selectedKeyIds.length > 0 && (
+        <BulkActionBar
+          selectedCount={selectedKeyIds.length}
+          filteredCount={sortedKeys.length}
+          languages={languages}
+          sourceLangCode={sourceLangCode}
+          lockedLangCodes={lockedLangCodes}
+          hasOpenAiKey={hasOpenAiKey}
+          onSelectAllFiltered={() => handleToggleKeys(sortedKeys.map(key => key.id), true)}
+          onClearSelection={() => setSelectedKeyIds([])}
+          onAction={handleBulkAction}
+          onTranslate={(langCodes, onProgress) => onBulkTranslate(selectedKeyIds, langCodes, onProgress)}
+        />
+      )}
+
       <TranslationTable 
         keys={pagedKeys}
         values={values}
@@ -305,7 +521,17 @@ const TranslationList: React.FC<TranslationListProps> = ({
         isQuickEditMode={isQuickEditMode}
         onEdit={onEdit}
         onDeleteKey={onDeleteKey}
+        onRenameKey={onRenameKey}
+        onDuplicateKey={onDuplicateKey}
         onUpdateValue={onUpdateValue}
+        lockedLangCodes={lockedLangCodes}
+        reviewed={reviewed}
+        unusedKeys={unusedKeys}
+        placeholderReport={placeholderReport}
+        needsReview={needsReview}
+        selectedKeyIds={selectedKeyIds}
+        onToggleKey={handleToggleKey}
+        onToggleKeys={handleToggleKeys}
       />
 
       {sortedKeys.length > PAGE_SIZE && (
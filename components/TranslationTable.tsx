@@ -1,8 +1,12 @@
 ﻿import React, { useState } from 'react';
-import { TranslationKey, TranslationValue, Language } from '../types';
-import { Edit, Copy, Check, Trash2 } from 'lucide-react';
+import { TranslationKey, TranslationValue, Language, ReviewState, NeedsReviewState } from '../types';
+import { Edit, Copy, Check, Trash2, PenLine, CopyPlus, BadgeCheck, Unlink, AlertTriangle } from 'lucide-react';
 import { useI18n } from '../services/i18n';
+import { getPluralFormCategories, getPluralFormValues, isKeyTranslated, pluralFormKey } from '../services/pluralKeys';
+import { PlaceholderReport, describePlaceholderIssue, rowNeedsReview } from '../services/placeholders';
 import DeleteKeyModal from './DeleteKeyModal';
+import RenameKeyModal, { RenameKeyOptions } from './RenameKeyModal';
+import DuplicateKeyModal from './DuplicateKeyModal';
 
 interface TranslationTableProps {
   keys: TranslationKey[];
@@ -16,7 +20,17 @@ interface TranslationTableProps {
   isQuickEditMode: boolean;
   onEdit: (keyId: string, langCode: string) => void;
   onDeleteKey: (keyId: string) => void;
+  onRenameKey: (from: string, to: string, options: RenameKeyOptions) => void;
+  onDuplicateKey: (from: string, to: string, clearTargets: boolean) => void;
   onUpdateValue: (keyId: string, langCode: string, newValue: string) => void;
+  lockedLangCodes: string[];
+  reviewed: ReviewState;
+  unusedKeys: Set<string>;
+  placeholderReport: PlaceholderReport;
+  needsReview: NeedsReviewState;
+  selectedKeyIds: string[];
+  onToggleKey: (keyId: string) => void;
+  onToggleKeys: (keyIds: string[], selected: boolean) => void;
 }
 
 const TranslationTable: React.FC<TranslationTableProps> = ({
@@ -31,15 +45,28 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
   isQuickEditMode,
   onEdit,
   onDeleteKey,
-  onUpdateValue
+  onRenameKey,
+  onDuplicateKey,
+  onUpdateValue,
+  lockedLangCodes,
+  reviewed,
+  unusedKeys,
+  placeholderReport,
+  needsReview,
+  selectedKeyIds,
+  onToggleKey,
+  onToggleKeys
 }) => {
   const t = useI18n();
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [keyToDelete, setKeyToDelete] = useState<{ id: string; label: string } | null>(null);
+  const [keyToRename, setKeyToRename] = useState<string | null>(null);
+  const [keyToDuplicate, setKeyToDuplicate] = useState<string | null>(null);
   const targetLangCodes = languages
     .filter(lang => lang.code !== sourceLangCode)
     .map(lang => lang.code);
+  const allSelected = keys.length > 0 && keys.every(key => selectedKeyIds.includes(key.id));
 
   const getProgressBadgeClass = (percent: number) => {
     if (percent >= 100) {
@@ -75,13 +102,75 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
     }
   };
 
-  const renderCellContent = (keyId: string, langCode: string, value: string) => {
+  const renderPluralCell = (key: TranslationKey, langCode: string) => {
+    const plural = key.plural!;
+    const forms = getPluralFormValues(plural, values, langCode);
+    const isLocked = lockedLangCodes.includes(langCode);
+    return (
+      <div className="space-y-1">
+        {getPluralFormCategories(plural, langCode).map(category => (
+          <div key={category} className="flex items-start gap-2">
+            <span className="w-10 shrink-0 pt-0.5 font-mono text-[10px] uppercase text-gray-400 dark:text-gray-500">{category}</span>
+            {isQuickEditMode ? (
+              <textarea
+                value={forms[category] || ''}
+                onChange={(e) => onUpdateValue(pluralFormKey(plural.base, category), langCode, e.target.value)}
+                readOnly={isLocked}
+                title={isLocked ? t('table.locked') : undefined}
+                className={`w-full min-w-[150px] p-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none resize-y ${isLocked ? 'opacity-60 cursor-not-allowed' : ''}`}
+                rows={1}
+              />
+            ) : (
+              <span className={`text-sm line-clamp-2 font-sans ${forms[category] ? 'text-gray-900 dark:text-gray-200' : 'text-gray-400 dark:text-gray-500 italic'}`}>
+                {forms[category] || t('table.notTranslated')}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderCellWarnings = (key: TranslationKey, langCode: string) => {
+    const issues = placeholderReport[key.id]?.[langCode];
+    const isParked = rowNeedsReview(key, needsReview, langCode);
+    if (!issues && !isParked) return null;
+    return (
+      <div className="mt-1 flex flex-wrap gap-2">
+        {issues && (
+          <span
+            className="inline-flex items-center gap-1 text-[11px] text-amber-600 dark:text-amber-400"
+            title={issues.map(issue => describePlaceholderIssue(issue, t)).join('\n')}
+          >
+            <AlertTriangle className="w-3 h-3" /> {t('table.placeholderIssues', { count: issues.length })}
+          </span>
+        )}
+        {isParked && (
+          <button
+            onClick={() => onEdit(key.id, langCode)}
+            title={t('table.needsReviewHelp')}
+            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 text-[10px] font-semibold uppercase tracking-wide"
+          >
+            {t('table.needsReview')}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderCellContent = (key: TranslationKey, langCode: string) => {
+    if (key.plural) return renderPluralCell(key, langCode);
+    const keyId = key.id;
+    const value = values[keyId]?.[langCode] || '';
     if (isQuickEditMode) {
+      const isLocked = lockedLangCodes.includes(langCode);
       return (
         <textarea
           value={value}
           onChange={(e) => onUpdateValue(keyId, langCode, e.target.value)}
-          className="w-full min-w-[150px] p-2 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+          readOnly={isLocked}
+          title={isLocked ? t('table.locked') : undefined}
+          className={`w-full min-w-[150px] p-2 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none resize-y ${isLocked ? 'opacity-60 cursor-not-allowed' : ''}`}
           rows={2}
         />
       );
@@ -100,7 +189,16 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
           <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0 z-10">
             <tr>
               <th scope="col" className="px-4 py-2.5 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider min-w-[200px] sticky left-0 bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)] z-30">
-                {t('table.key')}
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={(e) => onToggleKeys(keys.map(key => key.id), e.target.checked)}
+                    title={t('table.selectPage')}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {t('table.key')}
+                </div>
               </th>
               <th scope="col" className="px-4 py-2.5 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider min-w-[250px]">
                 {t('table.source', { source: sourceLangName })}
@@ -126,15 +224,19 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
           <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
             {keys.map((key) => {
               const baseValue = values[key.id]?.[sourceLangCode] || '';
-              const translatedCount = targetLangCodes.reduce((acc, code) => {
-                const currentValue = values[key.id]?.[code] || '';
-                return currentValue.trim().length > 0 ? acc + 1 : acc;
-              }, 0);
+              const keyLabel = key.plural ? key.plural.base : key.key;
+              const translatedCount = targetLangCodes.reduce(
+                (acc, code) => (isKeyTranslated(key, values, code) ? acc + 1 : acc),
+                0
+              );
               const totalTargets = targetLangCodes.length;
               const progressPercent = totalTargets === 0
                 ? 100
                 : Math.round((translatedCount / totalTargets) * 100);
               const progressClass = getProgressBadgeClass(progressPercent);
+              const reviewIds = key.plural ? Object.values(key.plural.forms) : [key.id];
+              const isReviewed = totalTargets > 0 &&
+                reviewIds.every(id => targetLangCodes.every(code => reviewed[id]?.includes(code)));
 
               return (
                 <tr key={key.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors group">
@@ -142,7 +244,31 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
                   <td className="px-4 py-3 sticky left-0 bg-white dark:bg-gray-800 group-hover:bg-gray-50 dark:group-hover:bg-gray-700/50 border-r border-gray-200 dark:border-gray-700 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)] z-20 align-top">
                     <div className="flex flex-col">
                       <div className="flex items-center gap-2">
-                        <span className="text-sm font-mono font-medium text-indigo-600 dark:text-indigo-400 break-all">{key.key}</span>
+                        <input
+                          type="checkbox"
+                          checked={selectedKeyIds.includes(key.id)}
+                          onChange={() => onToggleKey(key.id)}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 shrink-0"
+                        />
+                        <span className="text-sm font-mono font-medium text-indigo-600 dark:text-indigo-400 break-all">{keyLabel}</span>
+                        {key.plural && (
+                          <span
+                            className="px-1.5 py-0.5 rounded bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 uppercase tracking-wide text-[10px] font-semibold"
+                            title={Object.values(key.plural.forms).join(', ')}
+                          >
+                            {t('plural.badge')}
+                          </span>
+                        )}
+                        {isReviewed && (
+                          <span title={t('table.reviewed')}>
+                            <BadgeCheck className="w-4 h-4 text-emerald-500 shrink-0" />
+                          </span>
+                        )}
+                        {unusedKeys.has(key.key) && (
+                          <span title={t('table.unused')}>
+                            <Unlink className="w-4 h-4 text-amber-500 shrink-0" />
+                          </span>
+                        )}
                         <span
                           className={`inline-flex items-center px-2 py-0.5 rounded text-[10px] font-semibold border ${progressClass}`}
                           title={t('table.progress', { done: translatedCount, total: totalTargets })}
@@ -150,11 +276,11 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
                           {progressPercent}%
                         </span>
                         <button
-                          onClick={() => handleCopy(key.key)}
+                          onClick={() => handleCopy(keyLabel)}
                           className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors p-1 shrink-0"
                           title={t('table.copyKey')}
                         >
-                          {copiedKey === key.key ? <Check className="w-3.5 h-3.5 text-green-500" /> : <Copy className="w-3.5 h-3.5" />}
+                          {copiedKey === keyLabel ? <Check className="w-3.5 h-3.5 text-green-500" /> : <Copy className="w-3.5 h-3.5" />}
                         </button>
                       </div>
                       <div className="mt-2 flex gap-1 flex-wrap">
@@ -169,20 +295,33 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
 
                   {/* Source Language Column */}
                   <td className="px-4 py-3 align-top">
-                    <div className="text-sm text-gray-600 dark:text-gray-400 line-clamp-4 font-sans whitespace-pre-wrap" title={baseValue}>
-                      {baseValue || <span className="text-gray-300 dark:text-gray-600 italic">{t('table.empty')}</span>}
-                    </div>
+                    {key.plural ? (
+                      <div className="space-y-1 text-gray-600 dark:text-gray-400">
+                        {Object.entries(getPluralFormValues(key.plural, values, sourceLangCode)).map(([category, text]) => (
+                          <div key={category} className="flex items-start gap-2 text-sm">
+                            <span className="w-10 shrink-0 pt-0.5 font-mono text-[10px] uppercase text-gray-400 dark:text-gray-500">{category}</span>
+                            <span className="line-clamp-2 font-sans">{text}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-sm text-gray-600 dark:text-gray-400 line-clamp-4 font-sans whitespace-pre-wrap" title={baseValue}>
+                        {baseValue || <span className="text-gray-300 dark:text-gray-600 italic">{t('table.empty')}</span>}
+                      </div>
+                    )}
                   </td>
 
                   {/* Target Language Column(s) */}
                   {viewMode === 'single' ? (
                     <td className="px-4 py-3 align-top">
-                      {renderCellContent(key.id, effectiveSelectedLang, values[key.id]?.[effectiveSelectedLang] || '')}
+                      {renderCellContent(key, effectiveSelectedLang)}
+                      {renderCellWarnings(key, effectiveSelectedLang)}
                     </td>
                   ) : (
                     availableTargets.map(lang => (
                       <td key={lang.code} className="px-4 py-3 align-top">
-                        {renderCellContent(key.id, lang.code, values[key.id]?.[lang.code] || '')}
+                        {renderCellContent(key, lang.code)}
+                        {renderCellWarnings(key, lang.code)}
                       </td>
                     ))
                   )}
@@ -201,8 +340,26 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
                           <Edit className="w-4 h-4" /> {t('table.details')}
                         </button>
                       )}
+                      {!key.plural && (
+                        <button
+                          onClick={() => setKeyToRename(key.id)}
+                          className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white flex items-center gap-1"
+                          title={t('table.rename')}
+                        >
+                          <PenLine className="w-4 h-4" /> {t('table.rename')}
+                        </button>
+                      )}
+                      {!key.plural && (
+                        <button
+                          onClick={() => setKeyToDuplicate(key.id)}
+                          className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white flex items-center gap-1"
+                          title={t('table.duplicate')}
+                        >
+                          <CopyPlus className="w-4 h-4" /> {t('table.duplicate')}
+                        </button>
+                      )}
                       <button
-                        onClick={() => handleDelete(key.id, key.key)}
+                        onClick={() => handleDelete(key.id, keyLabel)}
                         className="text-rose-600 dark:text-rose-400 hover:text-rose-700 dark:hover:text-rose-300 flex items-center gap-1"
                         title={t('table.delete')}
                       >
@@ -232,6 +389,19 @@ const TranslationTable: React.FC<TranslationTableProps> = ({
         onConfirm={handleConfirmDelete}
         keyName={keyToDelete?.label || ''}
       />
+      <RenameKeyModal
+        isOpen={keyToRename !== null}
+        onClose={() => setKeyToRename(null)}
+        onConfirm={onRenameKey}
+        keyName={keyToRename || ''}
+      />
+      <DuplicateKeyModal
+        isOpen={keyToDuplicate !== null}
+        onClose={() => setKeyToDuplicate(null)}
+        onConfirm={onDuplicateKey}
+        keyName={keyToDuplicate || ''}
+        sourceLangName={sourceLangName}
+      />
     </div>
   );
 };
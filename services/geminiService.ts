@@ -1,6 +1,12 @@
-import { buildToonSystemPrompt, buildToonUserPrompt } from './toonPrompt';
+import { buildToonRepairPrompt, buildToonSystemPrompt, buildToonUserPrompt } from './toonPrompt';
+import { getPluralCategories, hasIcuSyntax } from './icu';
+import { PlaceholderIssue, checkPluralForm, checkPlaceholders } from './placeholders';
 
 const DEFAULT_OPENAI_MODEL = 'gpt-5-nano-2025-08-07';
+// Follow-up requests sent when the output breaks placeholders or markup.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
 
 type AiOptions = {
   openAiApiKey?: string;
@@ -15,6 +21,35 @@ type AiOptions = {
   }) => void;
 };
 
+// The model kept breaking placeholders or markup after every repair attempt.
+export class PlaceholderRepairError extends Error {
+  constructor(readonly translation: string, readonly issues: PlaceholderIssue[]) {
+    super('OpenAI output breaks placeholders.');
+    this.name = 'PlaceholderRepairError';
+  }
+}
+
+// Same for plural forms: `intact` forms passed the check, `broken` ones did not.
+export class PluralRepairError extends Error {
+  constructor(readonly intact: Record<string, string>, readonly broken: Record<string, string>) {
+    super('OpenAI output breaks placeholders in plural forms.');
+    this.name = 'PluralRepairError';
+  }
+}
+
+const describeRepair = (issue: PlaceholderIssue): string => {
+  switch (issue.kind) {
+    case 'missing':
+      return `KEEP ${issue.token}`;
+    case 'extra':
+      return `REMOVE ${issue.token}`;
+    case 'renamed':
+      return `RESTORE ${issue.to} -> ${issue.from}`;
+    default:
+      return `${issue.kind === 'tag' ? 'TAG' : 'MD'} ${issue.token} COUNT ${issue.expected} NOT ${issue.actual}`;
+  }
+};
+
 const normalizeTranslationOutput = (raw: string): string => {
   let text = raw.trim();
   if (!text) return text;
@@ -86,15 +121,95 @@ const translateWithOpenAi = async (
   model: string,
   options?: AiOptions
 ): Promise<string> => {
-  const systemPrompt = buildToonSystemPrompt(targetLang, sourceLang, context);
-  const userPrompt = buildToonUserPrompt(text);
+  const pluralCategories = hasIcuSyntax(text)
+    ? getPluralCategories(options?.targetLangCode || 'en')
+    : undefined;
+  const messages: ChatMessage[] = [
+    { role: 'system', content: buildToonSystemPrompt(targetLang, sourceLang, context, { pluralCategories }) },
+    { role: 'user', content: buildToonUserPrompt(text) }
+  ];
+
+  for (let attempt = 0; ; attempt += 1) {
+    const content = await requestOpenAi(messages, targetLang, apiKeyValue, model, options);
+    const translation = normalizeTranslationOutput(content);
+    const issues = checkPlaceholders(text, translation);
+    if (issues.length === 0) return translation;
+    if (attempt === MAX_REPAIR_ATTEMPTS) throw new PlaceholderRepairError(translation, issues);
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: buildToonRepairPrompt(issues.map(describeRepair)) }
+    );
+  }
+};
 
+export const translatePluralForms = async (
+  forms: Record<string, string>,
+  categories: string[],
+  targetLang: string,
+  sourceLang: string = 'English',
+  context?: string,
+  options?: AiOptions
+): Promise<Record<string, string>> => {
+  if (!options?.openAiApiKey) {
+    throw new Error('OpenAI API key missing.');
+  }
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: buildToonSystemPrompt(targetLang, sourceLang, context, { pluralCategories: categories, pluralForms: true })
+    },
+    { role: 'user', content: buildToonUserPrompt(JSON.stringify(forms)) }
+  ];
+
+  for (let attempt = 0; ; attempt += 1) {
+    const content = await requestOpenAi(
+      messages,
+      targetLang,
+      options.openAiApiKey,
+      options.openAiModel || DEFAULT_OPENAI_MODEL,
+      options
+    );
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(normalizeTranslationOutput(content));
+    } catch {
+      throw new Error('OpenAI returned invalid plural forms.');
+    }
+    const result: Record<string, string> = {};
+    const problems: string[] = [];
+    const broken = new Set<string>();
+    for (const category of categories) {
+      const value = (parsed as Record<string, unknown> | null)?.[category];
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new Error(`OpenAI did not return the "${category}" plural form.`);
+      }
+      result[category] = value.trim();
+      const issues = checkPluralForm(forms, category, result[category]);
+      if (issues.length > 0) broken.add(category);
+      issues.forEach(issue => problems.push(`${category}:${describeRepair(issue)}`));
+    }
+    if (broken.size === 0) return result;
+    if (attempt === MAX_REPAIR_ATTEMPTS) {
+      const split = (keep: boolean) =>
+        Object.fromEntries(Object.entries(result).filter(([category]) => broken.has(category) !== keep));
+      throw new PluralRepairError(split(true), split(false));
+    }
+    messages.push({ role: 'assistant', content }, { role: 'user', content: buildToonRepairPrompt(problems, true) });
+  }
+};
+
+const requestOpenAi = async (
+  messages: ChatMessage[],
+  targetLang: string,
+  apiKeyValue: string,
+  model: string,
+  options?: AiOptions
+): Promise<string> => {
   const payload: Record<string, unknown> = {
     model,
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ]
+    messages
   };
 
   if (!model.startsWith('gpt-5')) {
@@ -133,5 +248,5 @@ const translateWithOpenAi = async (
     });
   }
   const content = data?.choices?.[0]?.message?.content;
-  return typeof content === 'string' ? normalizeTranslationOutput(content) : '';
+  return typeof content === 'string' ? content : '';
 };
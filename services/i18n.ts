@@ -1,9 +1,8 @@
 import React, { createContext, useContext, useMemo } from 'react';
+import { Translator } from '../types';
 
 type Dictionary = Record<string, string>;
 
-export type Translator = (key: string, vars?: Record<string, string | number>) => string;
-
 const normalizeLocale = (value: string) => value.toLowerCase().replace('_', '-');
 
 const loadDictionaries = (): Record<string, Dictionary> => {
@@ -0,0 +1,351 @@
+export type IcuOption = {
+  selector: string;
+  value: IcuNode[];
+};
+
+export type IcuNode =
+  | { type: 'text'; value: string }
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | { type: 'plural'; name: string; ordinal: boolean; offset: number; options: IcuOption[] }
+  | { type: 'select'; name: string; options: IcuOption[] };
+
+export type IcuErrorCode =
+  | 'unclosedArgument'
+  | 'emptyArgument'
+  | 'unexpectedClose'
+  | 'expectedOption'
+  | 'duplicateOption'
+  | 'invalidOffset';
+
+export type IcuIssue = {
+  severity: 'error' | 'warning';
+  code: IcuErrorCode | 'missingOther' | 'missingCategory' | 'unusedCategory';
+  argument?: string;
+  categories?: string[];
+  offset?: number;
+};
+
+export class IcuSyntaxError extends Error {
+  constructor(readonly code: IcuErrorCode, readonly offset: number) {
+    super(code);
+    this.name = 'IcuSyntaxError';
+  }
+}
+
+export const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+const COMPLEX_ARGUMENT = /\{\s*[^\s{},]+\s*,\s*(plural|select|selectordinal)\s*,/;
+const ARGUMENT_NAME = /^[^\s{},#']+/;
+
+export const hasIcuSyntax = (message: string): boolean => COMPLEX_ARGUMENT.test(message);
+
+export const parseIcu = (message: string): IcuNode[] => {
+  let position = 0;
+
+  const skipSpace = () => {
+    while (position < message.length && /\s/.test(message[position])) position += 1;
+  };
+
+  const expect = (char: string, code: IcuErrorCode) => {
+    skipSpace();
+    if (message[position] !== char) throw new IcuSyntaxError(code, position);
+    position += 1;
+  };
+
+  const readWord = (code: IcuErrorCode): string => {
+    skipSpace();
+    const match = message.slice(position).match(ARGUMENT_NAME);
+    if (!match) throw new IcuSyntaxError(code, position);
+    position += match[0].length;
+    return match[0];
+  };
+
+  const readOptions = (inPlural: boolean): IcuOption[] => {
+    const options: IcuOption[] = [];
+    skipSpace();
+    while (position < message.length && message[position] !== '}') {
+      const start = position;
+      const selector = readWord('expectedOption');
+      if (options.some(option => option.selector === selector)) {
+        throw new IcuSyntaxError('duplicateOption', start);
+      }
+      expect('{', 'expectedOption');
+      const value = readMessage(inPlural, true);
+      expect('}', 'unclosedArgument');
+      options.push({ selector, value });
+      skipSpace();
+    }
+    if (options.length === 0) throw new IcuSyntaxError('expectedOption', position);
+    return options;
+  };
+
+  const readArgument = (): IcuNode => {
+    const start = position;
+    position += 1;
+    skipSpace();
+    if (message[position] === '}') throw new IcuSyntaxError('emptyArgument', start);
+    const name = readWord('emptyArgument');
+    skipSpace();
+    if (message[position] === '}') {
+      position += 1;
+      return { type: 'argument', name };
+    }
+    expect(',', 'unclosedArgument');
+    const format = readWord('unclosedArgument');
+    skipSpace();
+
+    if (format === 'plural' || format === 'selectordinal' || format === 'select') {
+      expect(',', 'expectedOption');
+      skipSpace();
+      let offset = 0;
+      if (format !== 'select' && message.startsWith('offset:', position)) {
+        position += 'offset:'.length;
+        const match = message.slice(position).match(/^\s*(\d+)/);
+        if (!match) throw new IcuSyntaxError('invalidOffset', position);
+        offset = Number(match[1]);
+        position += match[0].length;
+      }
+      const options = readOptions(format !== 'select');
+      expect('}', 'unclosedArgument');
+      return format === 'select'
+        ? { type: 'select', name, options }
+        : { type: 'plural', name, ordinal: format === 'selectordinal', offset, options };
+    }
+
+    if (message[position] === '}') {
+      position += 1;
+      return { type: 'argument', name, format };
+    }
+    expect(',', 'unclosedArgument');
+    const end = message.indexOf('}', position);
+    if (end === -1) throw new IcuSyntaxError('unclosedArgument', start);
+    const style = message.slice(position, end).trim();
+    position = end + 1;
+    return { type: 'argument', name, format, style };
+  };
+
+  const readMessage = (inPlural: boolean, nested: boolean): IcuNode[] => {
+    const nodes: IcuNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (position < message.length) {
+      const char = message[position];
+      if (char === '}') {
+        if (nested) break;
+        throw new IcuSyntaxError('unexpectedClose', position);
+      }
+      if (char === '{') {
+        flush();
+        nodes.push(readArgument());
+        continue;
+      }
+      if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ type: 'pound' });
+        position += 1;
+        continue;
+      }
+      if (char === "'") {
+        const next = message[position + 1];
+        if (next === "'") {
+          text += "'";
+          position += 2;
+          continue;
+        }
+        if (next === '{' || next === '}' || (next === '#' && inPlural)) {
+          // Quoted literal: runs until the next lone apostrophe.
+          position += 1;
+          while (position < message.length) {
+            if (message[position] === "'") {
+              if (message[position + 1] === "'") {
+                text += "'";
+                position += 2;
+                continue;
+              }
+              position += 1;
+              break;
+            }
+            text += message[position];
+            position += 1;
+          }
+          continue;
+        }
+      }
+      text += char;
+      position += 1;
+    }
+
+    flush();
+    return nodes;
+  };
+
+  return readMessage(false, false);
+};
+
+const escapeText = (value: string, inPlural: boolean): string => {
+  const special = inPlural ? /[{}#]/ : /[{}]/;
+  const double = (part: string) => part.replace(/'/g, "''");
+  const first = value.search(special);
+  if (first === -1) return double(value);
+  // Quote a single span from the first to the last syntax character.
+  const last = value.length - 1 - [...value].reverse().join('').search(special);
+  return `${double(value.slice(0, first))}'${double(value.slice(first, last + 1))}'${double(value.slice(last + 1))}`;
+};
+
+export const printIcu = (nodes: IcuNode[], inPlural = false): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return escapeText(node.value, inPlural);
+        case 'pound':
+          return '#';
+        case 'argument':
+          return `{${[node.name, node.format, node.style].filter(Boolean).join(', ')}}`;
+        case 'plural': {
+          const offset = node.offset ? ` offset:${node.offset}` : '';
+          const options = node.options.map(option => `${option.selector} {${printIcu(option.value, true)}}`);
+          return `{${node.name}, ${node.ordinal ? 'selectordinal' : 'plural'},${offset} ${options.join(' ')}}`;
+        }
+        case 'select': {
+          const options = node.options.map(option => `${option.selector} {${printIcu(option.value, inPlural)}}`);
+          return `{${node.name}, select, ${options.join(' ')}}`;
+        }
+        default:
+          return '';
+      }
+    })
+    .join('');
+
+export const toIcuLocale = (langCode: string): string => {
+  const tag = langCode.replace(/_/g, '-');
+  try {
+    return Intl.getCanonicalLocales(tag)[0] || 'en';
+  } catch {
+    return 'en';
+  }
+};
+
+export const getPluralCategories = (langCode: string, ordinal = false): string[] => {
+  const categories = new Intl.PluralRules(toIcuLocale(langCode), {
+    type: ordinal ? 'ordinal' : 'cardinal'
+  }).resolvedOptions().pluralCategories as string[];
+  return PLURAL_CATEGORIES.filter(category => categories.includes(category));
+};
+
+export const getPluralExamples = (langCode: string, ordinal = false): Record<string, number[]> => {
+  const rules = new Intl.PluralRules(toIcuLocale(langCode), { type: ordinal ? 'ordinal' : 'cardinal' });
+  const examples: Record<string, number[]> = {};
+  for (let count = 0; count <= 200; count += 1) {
+    const category = rules.select(count);
+    examples[category] = examples[category] || [];
+    if (examples[category].length < 3) examples[category].push(count);
+  }
+  // Some categories (e.g. "many" in French) are only reached by large numbers.
+  for (const count of [1000000, 1.5]) {
+    const category = rules.select(count);
+    if (!examples[category]) examples[category] = [count];
+  }
+  return examples;
+};
+
+export const formatIcu = (
+  nodes: IcuNode[],
+  args: Record<string, string | number>,
+  langCode: string,
+  pound?: number
+): string => {
+  const locale = toIcuLocale(langCode);
+  const pick = (options: IcuOption[], selector: string) =>
+    options.find(option => option.selector === selector) ??
+    options.find(option => option.selector === 'other');
+
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'pound':
+          return pound === undefined ? '#' : new Intl.NumberFormat(locale).format(pound);
+        case 'argument': {
+          const value = args[node.name];
+          if (value === undefined || value === '') return `{${node.name}}`;
+          return node.format === 'number' && !Number.isNaN(Number(value))
+            ? new Intl.NumberFormat(locale).format(Number(value))
+            : String(value);
+        }
+        case 'plural': {
+          const count = Number(args[node.name] ?? 0);
+          const exact = node.options.find(option => option.selector === `=${count}`);
+          const category = new Intl.PluralRules(locale, {
+            type: node.ordinal ? 'ordinal' : 'cardinal'
+          }).select(count - node.offset);
+          const option = exact ?? pick(node.options, category);
+          return option ? formatIcu(option.value, args, langCode, count - node.offset) : '';
+        }
+        case 'select': {
+          const option = pick(node.options, String(args[node.name] ?? 'other'));
+          return option ? formatIcu(option.value, args, langCode, pound) : '';
+        }
+        default:
+          return '';
+      }
+    })
+    .join('');
+};
+
+export const collectIcuArguments = (
+  nodes: IcuNode[],
+  found: Map<string, IcuNode['type']> = new Map()
+): Map<string, IcuNode['type']> => {
+  for (const node of nodes) {
+    if (node.type === 'argument' && !found.has(node.name)) found.set(node.name, 'argument');
+    if (node.type === 'plural' || node.type === 'select') {
+      found.set(node.name, node.type);
+      node.options.forEach(option => collectIcuArguments(option.value, found));
+    }
+  }
+  return found;
+};
+
+export const validateIcu = (message: string, langCode: string): IcuIssue[] => {
+  let nodes: IcuNode[];
+  try {
+    nodes = parseIcu(message);
+  } catch (error) {
+    if (!(error instanceof IcuSyntaxError)) throw error;
+    return [{ severity: 'error', code: error.code, offset: error.offset }];
+  }
+
+  const issues: IcuIssue[] = [];
+  const visit = (list: IcuNode[]) => {
+    for (const node of list) {
+      if (node.type !== 'plural' && node.type !== 'select') continue;
+      const selectors = node.options.map(option => option.selector);
+      if (!selectors.includes('other')) {
+        issues.push({ severity: 'error', code: 'missingOther', argument: node.name });
+      }
+      if (node.type === 'plural') {
+        const required = getPluralCategories(langCode, node.ordinal);
+        const missing = required.filter(category => category !== 'other' && !selectors.includes(category));
+        const unused = selectors.filter(
+          selector => PLURAL_CATEGORIES.includes(selector) && !required.includes(selector)
+        );
+        if (missing.length > 0) {
+          issues.push({ severity: 'warning', code: 'missingCategory', argument: node.name, categories: missing });
+        }
+        if (unused.length > 0) {
+          issues.push({ severity: 'warning', code: 'unusedCategory', argument: node.name, categories: unused });
+        }
+      }
+      node.options.forEach(option => visit(option.value));
+    }
+  };
+  visit(nodes);
+  return issues;
+};
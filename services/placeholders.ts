@@ -0,0 +1,221 @@
+import { NeedsReviewState, TranslationKey, TranslationValue, Translator } from '../types';
+import { PLACEHOLDER_SYNTAXES } from './toonPrompt';
+import { getPluralFormValues, splitPluralKey } from './pluralKeys';
+import { IcuNode, IcuSyntaxError, collectIcuArguments, hasIcuSyntax, parseIcu } from './icu';
+
+export type PlaceholderIssue =
+  | { kind: 'missing'; token: string }
+  | { kind: 'extra'; token: string }
+  | { kind: 'renamed'; from: string; to: string }
+  | { kind: 'tag' | 'markdown'; token: string; expected: number; actual: number };
+
+// Row id -> language code -> issues for that cell.
+export type PlaceholderReport = Record<string, Record<string, PlaceholderIssue[]>>;
+
+const PLACEHOLDER = new RegExp(PLACEHOLDER_SYNTAXES.map(syntax => `(${syntax.pattern.source})`).join('|'), 'g');
+const HTML_TAG = /<(\/?)([A-Za-z][\w-]*|\d+)\b[^<>]*?(\/?)>/g;
+const MARKDOWN_TOKENS: Array<{ token: string; pattern: RegExp }> = [
+  { token: '**', pattern: /\*\*/g },
+  { token: '__', pattern: /__/g },
+  { token: '`', pattern: /`/g },
+  { token: '[…](…)', pattern: /\]\(/g }
+];
+
+export const stripPlaceholders = (text: string) => text.replace(PLACEHOLDER, '');
+
+type Placeholder = { token: string; syntax: number };
+
+const extractPlaceholders = (text: string): Placeholder[] =>
+  Array.from(text.matchAll(PLACEHOLDER), match => ({
+    token: match[0],
+    syntax: match.slice(1).findIndex(group => group !== undefined)
+  }));
+
+const BRACE_SYNTAX = PLACEHOLDER_SYNTAXES.findIndex(syntax => syntax.example === '{x}');
+
+const icuText = (nodes: IcuNode[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') return node.value;
+      if (node.type === 'plural' || node.type === 'select') {
+        return node.options.map(option => icuText(option.value)).join('\n');
+      }
+      return '';
+    })
+    .join('');
+
+// The message as shown for one value: every plural or select takes its `other` branch.
+const icuVariant = (nodes: IcuNode[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') return node.value;
+      if (node.type === 'plural' || node.type === 'select') {
+        const option = node.options.find(item => item.selector === 'other') ?? node.options[node.options.length - 1];
+        return icuVariant(option.value);
+      }
+      return '';
+    })
+    .join('');
+
+// ICU arguments are compared by name; only the literal text is searched for other syntaxes, so branch
+// bodies like `one {item}` don't read as placeholders. Markup is counted in one variant, as branches repeat it.
+const readIcu = (message: string): { placeholders: Placeholder[]; markup: string } | null => {
+  let nodes: IcuNode[];
+  try {
+    nodes = parseIcu(message);
+  } catch (error) {
+    if (error instanceof IcuSyntaxError) return null;
+    throw error;
+  }
+  const argumentsFound = Array.from(collectIcuArguments(nodes).keys(), name => {
+    const token = `{${name}}`;
+    return { token, syntax: extractPlaceholders(token)[0]?.syntax ?? BRACE_SYNTAX };
+  });
+  return { placeholders: [...argumentsFound, ...extractPlaceholders(icuText(nodes))], markup: icuVariant(nodes) };
+};
+
+const countTags = (text: string) => {
+  const counts = new Map<string, number>();
+  for (const match of text.matchAll(HTML_TAG)) {
+    const token = `<${match[1]}${match[2].toLowerCase()}${match[3]}>`;
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+};
+
+export const checkPlaceholders = (source: string, translation: string): PlaceholderIssue[] => {
+  if (!source.trim() || !translation.trim()) return [];
+  const issues: PlaceholderIssue[] = [];
+
+  // A translation that isn't valid ICU is reported by the ICU check; compare it as plain text here.
+  const sourceIcu = hasIcuSyntax(source) ? readIcu(source) : null;
+  const translationIcu = sourceIcu ? readIcu(translation) : null;
+  const icu = sourceIcu && translationIcu ? { source: sourceIcu, translation: translationIcu } : null;
+  const sourceMarkup = icu ? icu.source.markup : source;
+  const translationMarkup = icu ? icu.translation.markup : translation;
+
+  const expected = icu ? icu.source.placeholders : extractPlaceholders(source);
+  const actual = icu ? icu.translation.placeholders : extractPlaceholders(translation);
+  const missing = expected.filter(item => !actual.some(other => other.token === item.token));
+  const extra = actual.filter(item => !expected.some(other => other.token === item.token));
+  const unique = <T extends { token: string }>(items: T[]) =>
+    items.filter((item, index) => items.findIndex(other => other.token === item.token) === index);
+
+  // A missing and an extra placeholder of the same syntax is most likely a rename.
+  const renamed = new Set<string>();
+  for (const item of unique(missing)) {
+    const match = unique(extra).find(other => other.syntax === item.syntax && !renamed.has(other.token));
+    if (match) {
+      renamed.add(match.token);
+      renamed.add(item.token);
+      issues.push({ kind: 'renamed', from: item.token, to: match.token });
+    }
+  }
+  unique(missing)
+    .filter(item => !renamed.has(item.token))
+    .forEach(item => issues.push({ kind: 'missing', token: item.token }));
+  unique(extra)
+    .filter(item => !renamed.has(item.token))
+    .forEach(item => issues.push({ kind: 'extra', token: item.token }));
+
+  const sourceTags = countTags(sourceMarkup);
+  const targetTags = countTags(translationMarkup);
+  for (const token of new Set([...sourceTags.keys(), ...targetTags.keys()])) {
+    const expectedCount = sourceTags.get(token) || 0;
+    const actualCount = targetTags.get(token) || 0;
+    if (expectedCount !== actualCount) {
+      issues.push({ kind: 'tag', token, expected: expectedCount, actual: actualCount });
+    }
+  }
+
+  for (const { token, pattern } of MARKDOWN_TOKENS) {
+    const expectedCount = sourceMarkup.match(pattern)?.length || 0;
+    const actualCount = translationMarkup.match(pattern)?.length || 0;
+    if (expectedCount !== actualCount) {
+      issues.push({ kind: 'markdown', token, expected: expectedCount, actual: actualCount });
+    }
+  }
+
+  return issues;
+};
+
+const isCountToken = (token: string) => token.replace(/\W/g, '') === 'count';
+
+// A plural form is compared with the same source form, or with `other` when the source language lacks the
+// category (Russian `few`). Any form may use the placeholders of `other`, and forms but `other` may drop
+// the count ("один файл").
+export const checkPluralForm = (
+  sourceForms: Record<string, string>,
+  category: string,
+  translation: string
+): PlaceholderIssue[] => {
+  const other = sourceForms.other || '';
+  const otherTokens = new Set(extractPlaceholders(other).map(item => item.token));
+  return checkPlaceholders(sourceForms[category] || other, translation).filter(issue => {
+    if (issue.kind === 'extra') return !otherTokens.has(issue.token);
+    if (issue.kind === 'missing') return category === 'other' || !isCountToken(issue.token);
+    return true;
+  });
+};
+
+export const checkKeyPlaceholders = (
+  key: TranslationKey,
+  values: Record<string, TranslationValue>,
+  sourceLangCode: string,
+  langCode: string
+): PlaceholderIssue[] => {
+  if (!key.plural) {
+    return checkPlaceholders(values[key.id]?.[sourceLangCode] || '', values[key.id]?.[langCode] || '');
+  }
+  const sourceForms = getPluralFormValues(key.plural, values, sourceLangCode);
+  const forms = getPluralFormValues(key.plural, values, langCode);
+  return Object.entries(forms).flatMap(([category, text]) => checkPluralForm(sourceForms, category, text));
+};
+
+export const buildPlaceholderReport = (
+  keys: TranslationKey[],
+  values: Record<string, TranslationValue>,
+  sourceLangCode: string,
+  langCodes: string[]
+): PlaceholderReport => {
+  const report: PlaceholderReport = {};
+  for (const key of keys) {
+    for (const langCode of langCodes) {
+      if (langCode === sourceLangCode) continue;
+      const issues = checkKeyPlaceholders(key, values, sourceLangCode, langCode);
+      if (issues.length === 0) continue;
+      report[key.id] = { ...report[key.id], [langCode]: issues };
+    }
+  }
+  return report;
+};
+
+// Whether AI output for the row was parked for review, in one language or any.
+// Plural rows check every form, including forms that don't exist yet.
+export const rowNeedsReview = (key: TranslationKey, needsReview: NeedsReviewState, langCode?: string): boolean => {
+  const plural = key.plural;
+  const ids = plural
+    ? Object.keys(needsReview).filter(id => splitPluralKey(id)?.base === plural.base)
+    : [key.id];
+  return ids.some(id => {
+    const langs = Object.keys(needsReview[id] || {});
+    return langCode ? langs.includes(langCode) : langs.length > 0;
+  });
+};
+
+export const describePlaceholderIssue = (issue: PlaceholderIssue, t: Translator): string => {
+  switch (issue.kind) {
+    case 'missing':
+      return t('placeholders.missing', { token: issue.token });
+    case 'extra':
+      return t('placeholders.extra', { token: issue.token });
+    case 'renamed':
+      return t('placeholders.renamed', { from: issue.from, to: issue.to });
+    default:
+      return t(issue.kind === 'tag' ? 'placeholders.tag' : 'placeholders.markdown', {
+        token: issue.token,
+        expected: issue.expected,
+        actual: issue.actual
+      });
+  }
+};
@@ -0,0 +1,97 @@
+import { TranslationKey, TranslationValue } from '../types';
+import { PLURAL_CATEGORIES, getPluralCategories } from './icu';
+
+const PLURAL_KEY = /^(.+)_(zero|one|two|few|many|other)$/;
+
+export const splitPluralKey = (keyId: string): { base: string; category: string } | null => {
+  const match = keyId.match(PLURAL_KEY);
+  return match ? { base: match[1], category: match[2] } : null;
+};
+
+export const pluralFormKey = (base: string, category: string) => `${base}_${category}`;
+
+// Collapses i18next plural siblings (items_one, items_other, ...) into one row per
+// base key. Only bases with an `_other` form are grouped; the row reuses that key.
+export const groupPluralKeys = (keys: TranslationKey[]): TranslationKey[] => {
+  const groups = new Map<string, Record<string, string>>();
+  for (const key of keys) {
+    const split = splitPluralKey(key.id);
+    if (!split) continue;
+    const forms = groups.get(split.base) || {};
+    forms[split.category] = key.id;
+    groups.set(split.base, forms);
+  }
+
+  const rows: TranslationKey[] = [];
+  const emitted = new Set<string>();
+  for (const key of keys) {
+    const split = splitPluralKey(key.id);
+    const forms = split ? groups.get(split.base) : undefined;
+    if (!split || !forms?.other) {
+      rows.push(key);
+      continue;
+    }
+    if (emitted.has(split.base)) continue;
+    emitted.add(split.base);
+    const row = keys.find(item => item.id === forms.other)!;
+    rows.push({ ...row, plural: { base: split.base, forms } });
+  }
+  return rows;
+};
+
+// Categories a language needs, plus any extra forms the catalog already has.
+export const getPluralFormCategories = (plural: TranslationKey['plural'], langCode: string): string[] => {
+  const required = getPluralCategories(langCode);
+  const existing = Object.keys(plural?.forms || {});
+  return PLURAL_CATEGORIES.filter(category => required.includes(category) || existing.includes(category));
+};
+
+export const getPluralFormValues = (
+  plural: NonNullable<TranslationKey['plural']>,
+  values: Record<string, TranslationValue>,
+  langCode: string
+): Record<string, string> => {
+  const forms: Record<string, string> = {};
+  for (const category of PLURAL_CATEGORIES) {
+    const value = values[pluralFormKey(plural.base, category)]?.[langCode];
+    if (value) forms[category] = value;
+  }
+  return forms;
+};
+
+export const getMissingPluralForms = (
+  plural: NonNullable<TranslationKey['plural']>,
+  values: Record<string, TranslationValue>,
+  langCode: string
+): string[] => {
+  const present = getPluralFormValues(plural, values, langCode);
+  return getPluralCategories(langCode).filter(category => !present[category]?.trim());
+};
+
+export const isKeyTranslated = (
+  key: TranslationKey,
+  values: Record<string, TranslationValue>,
+  langCode: string
+): boolean =>
+  key.plural
+    ? getMissingPluralForms(key.plural, values, langCode).length === 0
+    : (values[key.id]?.[langCode] || '').trim().length > 0;
+
+export const getKeyTexts = (
+  key: TranslationKey,
+  values: Record<string, TranslationValue>,
+  langCode: string
+): string[] =>
+  key.plural
+    ? Object.values(getPluralFormValues(key.plural, values, langCode))
+    : [values[key.id]?.[langCode] || ''];
+
+// Expands list row ids to the catalog keys they stand for.
+export const expandKeyIds = (rows: TranslationKey[], keyIds: string[]): string[] =>
+  Array.from(new Set(keyIds.flatMap(keyId => {
+    const row = rows.find(item => item.id === keyId);
+    return row?.plural ? Object.values(row.plural.forms) : [keyId];
+  })));
+
+export const findKeyRow = (rows: TranslationKey[], keyId: string): TranslationKey | undefined =>
+  rows.find(row => row.id === keyId || Object.values(row.plural?.forms || {}).includes(keyId));
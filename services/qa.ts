@@ -0,0 +1,209 @@
+import { QaLanguageSettings, QaRuleId, QaRules, TranslationKey, TranslationValue, Translator } from '../types';
+import { PlaceholderIssue, checkPlaceholders, describePlaceholderIssue, stripPlaceholders } from './placeholders';
+import { getPluralFormValues, pluralFormKey } from './pluralKeys';
+
+export const QA_RULES: QaRuleId[] = [
+  'placeholders',
+  'whitespace',
+  'endPunctuation',
+  'identical',
+  'lengthRatio',
+  'doubleSpaces',
+  'capitalization',
+  'forbiddenTerms'
+];
+
+// Rules whose fix can be applied without a human, in the order they are applied.
+const FIXABLE_RULES: QaRuleId[] = ['whitespace', 'doubleSpaces', 'endPunctuation', 'capitalization'];
+
+export const DEFAULT_MAX_LENGTH_RATIO = 2.5;
+// Short strings ("OK", "Save") vary too much in length between languages to compare.
+const MIN_RATIO_SOURCE_LENGTH = 10;
+
+const END_MARKS = /[.!?:;…。！？：；]+$/;
+const FULL_WIDTH_MARKS: Record<string, string> = { '。': '.', '！': '!', '？': '?', '：': ':', '；': ';', '…': '.' };
+const ASCII_TO_FULL_WIDTH: Record<string, string> = { '.': '。', '!': '！', '?': '？', ':': '：', ';': '；' };
+const CJK = /[\u3000-\u30ff\u3400-\u9fff\uff00-\uffef]/;
+
+export type QaIssue =
+  | { rule: 'placeholders'; issue: PlaceholderIssue }
+  | { rule: 'lengthRatio'; ratio: number }
+  | { rule: 'forbiddenTerms'; term: string }
+  | { rule: 'whitespace' | 'endPunctuation' | 'identical' | 'doubleSpaces' | 'capitalization' };
+
+// One issue in one cell. `keyId` is the key that holds the text (a plural form for plural rows).
+export type QaFinding = QaIssue & {
+  rowId: string;
+  keyId: string;
+  lang: string;
+  source: string;
+  translation: string;
+};
+
+export type ResolvedQaSettings = {
+  rules: Record<QaRuleId, boolean>;
+  maxLengthRatio: number;
+  forbiddenTerms: string[];
+};
+
+export const resolveQaSettings = (qaRules: QaRules, langCode: string): ResolvedQaSettings => {
+  const base: QaLanguageSettings = qaRules['*'] || {};
+  const own: QaLanguageSettings = langCode === '*' ? {} : qaRules[langCode] || {};
+  const rules = {} as Record<QaRuleId, boolean>;
+  QA_RULES.forEach(rule => {
+    rules[rule] = own.rules?.[rule] ?? base.rules?.[rule] ?? true;
+  });
+  return {
+    rules,
+    maxLengthRatio: own.maxLengthRatio ?? base.maxLengthRatio ?? DEFAULT_MAX_LENGTH_RATIO,
+    forbiddenTerms: [...(base.forbiddenTerms || []), ...(own.forbiddenTerms || [])]
+      .map(term => term.trim())
+      .filter(Boolean)
+  };
+};
+
+const leadingSpace = (text: string) => text.match(/^\s*/)![0];
+const trailingSpace = (text: string) => text.match(/\s*$/)![0];
+const endMarks = (text: string) => text.trimEnd().match(END_MARKS)?.[0] || '';
+const normalizeMark = (marks: string) => {
+  const last = marks.slice(-1);
+  return FULL_WIDTH_MARKS[last] || last;
+};
+const isCased = (char: string) => char.toUpperCase() !== char.toLowerCase();
+const isUpper = (char: string) => char === char.toUpperCase();
+const firstChar = (text: string) => text.trimStart().charAt(0);
+const hasDoubleSpaces = (text: string) => /\S {2,}\S/.test(text);
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsTerm = (text: string, term: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+
+export const checkTranslation = (source: string, translation: string, settings: ResolvedQaSettings): QaIssue[] => {
+  if (!source.trim() || !translation.trim()) return [];
+  const { rules } = settings;
+  const issues: QaIssue[] = [];
+
+  if (rules.placeholders) {
+    checkPlaceholders(source, translation).forEach(issue => issues.push({ rule: 'placeholders', issue }));
+  }
+  if (
+    rules.whitespace &&
+    (leadingSpace(source) !== leadingSpace(translation) || trailingSpace(source) !== trailingSpace(translation))
+  ) {
+    issues.push({ rule: 'whitespace' });
+  }
+  if (rules.endPunctuation && normalizeMark(endMarks(source)) !== normalizeMark(endMarks(translation))) {
+    issues.push({ rule: 'endPunctuation' });
+  }
+  if (rules.identical && translation.trim() === source.trim() && /\p{L}/u.test(stripPlaceholders(source))) {
+    issues.push({ rule: 'identical' });
+  }
+  const sourceLength = source.trim().length;
+  if (rules.lengthRatio && sourceLength >= MIN_RATIO_SOURCE_LENGTH) {
+    const ratio = translation.trim().length / sourceLength;
+    if (ratio > settings.maxLengthRatio || ratio < 1 / settings.maxLengthRatio) {
+      issues.push({ rule: 'lengthRatio', ratio: Math.round(ratio * 10) / 10 });
+    }
+  }
+  if (rules.doubleSpaces && hasDoubleSpaces(translation) && !hasDoubleSpaces(source)) {
+    issues.push({ rule: 'doubleSpaces' });
+  }
+  const sourceFirst = firstChar(source);
+  const translationFirst = firstChar(translation);
+  if (
+    rules.capitalization &&
+    isCased(sourceFirst) &&
+    isCased(translationFirst) &&
+    isUpper(sourceFirst) !== isUpper(translationFirst)
+  ) {
+    issues.push({ rule: 'capitalization' });
+  }
+  if (rules.forbiddenTerms) {
+    settings.forbiddenTerms
+      .filter(term => containsTerm(translation, term))
+      .forEach(term => issues.push({ rule: 'forbiddenTerms', term }));
+  }
+
+  return issues;
+};
+
+export const isQaFixable = (rule: QaRuleId) => FIXABLE_RULES.includes(rule);
+
+export const applyQaFix = (rule: QaRuleId, source: string, translation: string): string => {
+  switch (rule) {
+    case 'whitespace':
+      return `${leadingSpace(source)}${translation.trim()}${trailingSpace(source)}`;
+    case 'doubleSpaces':
+      return translation.replace(/(\S) {2,}(?=\S)/g, '$1 ');
+    case 'endPunctuation': {
+      const body = translation.trimEnd().replace(END_MARKS, '');
+      const marks = CJK.test(body)
+        ? Array.from(endMarks(source), mark => ASCII_TO_FULL_WIDTH[mark] || mark).join('')
+        : endMarks(source);
+      return `${body}${marks}${trailingSpace(translation)}`;
+    }
+    case 'capitalization': {
+      const index = translation.length - translation.trimStart().length;
+      const char = translation.charAt(index);
+      const fixed = isUpper(firstChar(source)) ? char.toUpperCase() : char.toLowerCase();
+      return `${translation.slice(0, index)}${fixed}${translation.slice(index + 1)}`;
+    }
+    default:
+      return translation;
+  }
+};
+
+// Applies every fixable rule that currently fails, one after the other.
+export const fixTranslation = (source: string, translation: string, settings: ResolvedQaSettings): string =>
+  FIXABLE_RULES.reduce(
+    (current, rule) =>
+      checkTranslation(source, current, settings).some(issue => issue.rule === rule)
+        ? applyQaFix(rule, source, current)
+        : current,
+    translation
+  );
+
+export const runQa = (
+  rows: TranslationKey[],
+  values: Record<string, TranslationValue>,
+  sourceLangCode: string,
+  langCodes: string[],
+  qaRules: QaRules
+): QaFinding[] => {
+  const findings: QaFinding[] = [];
+  for (const langCode of langCodes) {
+    if (langCode === sourceLangCode) continue;
+    const settings = resolveQaSettings(qaRules, langCode);
+    for (const row of rows) {
+      const plural = row.plural;
+      // Plural forms are compared with the same source form, falling back to `other`.
+      const sourceForms = plural ? getPluralFormValues(plural, values, sourceLangCode) : {};
+      const cells = plural
+        ? Object.entries(getPluralFormValues(plural, values, langCode)).map(([category, translation]) => ({
+            keyId: plural.forms[category] || pluralFormKey(plural.base, category),
+            source: sourceForms[category] || sourceForms.other || '',
+            translation
+          }))
+        : [{ keyId: row.id, source: values[row.id]?.[sourceLangCode] || '', translation: values[row.id]?.[langCode] || '' }];
+      for (const cell of cells) {
+        checkTranslation(cell.source, cell.translation, settings).forEach(issue => {
+          findings.push({ ...issue, ...cell, rowId: row.id, lang: langCode });
+        });
+      }
+    }
+  }
+  return findings;
+};
+
+export const describeQaIssue = (issue: QaIssue, t: Translator): string => {
+  switch (issue.rule) {
+    case 'placeholders':
+      return describePlaceholderIssue(issue.issue, t);
+    case 'lengthRatio':
+      return t('qa.issue.lengthRatio', { ratio: issue.ratio });
+    case 'forbiddenTerms':
+      return t('qa.issue.forbiddenTerms', { term: issue.term });
+    default:
+      return t(`qa.issue.${issue.rule}`);
+  }
+};
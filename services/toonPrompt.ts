@@ -4,27 +4,62 @@ export const estimateTokenCount = (text: string): number => {
   return Math.ceil(trimmed.length / 4);
 };
 
+// Placeholder syntaxes the model must keep verbatim (the VARS line). The
+// placeholder validator matches translations against the same list.
+export const PLACEHOLDER_SYNTAXES: Array<{ example: string; pattern: RegExp }> = [
+  { example: '{{x}}', pattern: /\{\{\s*[^{}]+?\s*\}\}/ },
+  { example: '{x}', pattern: /\{[A-Za-z_][\w.]*\}/ },
+  { example: '%{x}', pattern: /%\{[^{}]+\}/ },
+  { example: '%s', pattern: /%(?:\d+\$)?s/ },
+  { example: '%d', pattern: /%(?:\d+\$)?d/ },
+  { example: '{0}', pattern: /\{\d+\}/ },
+  { example: '${x}', pattern: /\$\{[^{}]+\}/ }
+];
+
+export type ToonPromptOptions = {
+  // Target plural categories for ICU messages.
+  pluralCategories?: string[];
+  // Input and output are JSON objects of plural forms, e.g. {"one":"…","other":"…"}.
+  pluralForms?: boolean;
+};
+
 export const buildToonSystemPrompt = (
   targetLang: string,
   sourceLang: string,
-  context?: string
+  context?: string,
+  options: ToonPromptOptions = {}
 ): string => {
   const contextLine = context ? `CTX:${context}` : 'CTX:-';
+  const plurals = options.pluralCategories ? [`PLURALS:${options.pluralCategories.join(',')}`] : [];
+  const icuLines = options.pluralCategories && !options.pluralForms
+    ? ['ICU:KEEP_ARGS,KEEP_KEYWORDS,KEEP_SELECTORS,TRANSLATE_BRANCHES,KEEP_#']
+    : [];
   return [
     'TOON/1',
     `SRC:${sourceLang}`,
     `TGT:${targetLang}`,
     'RULES:KEEP_MD,KEEP_VARS,NO_QUOTES,NO_FENCES,NO_LABELS,NO_ECHO,NO_PREFIX',
-    'OUT:TEXT_ONLY',
-    'VARS:{{x}},{x},%{x},%s,%d,{0},${x}',
+    options.pluralForms ? 'IN:JSON_PLURAL_FORMS' : null,
+    options.pluralForms ? 'OUT:JSON_ONE_KEY_PER_PLURAL' : 'OUT:TEXT_ONLY',
+    `VARS:${PLACEHOLDER_SYNTAXES.map(syntax => syntax.example).join(',')}`,
+    ...icuLines,
+    ...plurals,
     contextLine
-  ].join('\n');
+  ].filter((line): line is string => line !== null).join('\n');
 };
 
 export const buildToonUserPrompt = (text: string): string => {
   return `"""${text}"""`;
 };
 
+// Follow-up after an output that broke placeholders or markup; one FIX line per problem.
+export const buildToonRepairPrompt = (problems: string[], pluralForms = false): string => {
+  return [
+    ...problems.map(problem => `FIX:${problem}`),
+    pluralForms ? 'OUT:JSON_ONE_KEY_PER_PLURAL' : 'OUT:TEXT_ONLY'
+  ].join('\n');
+};
+
 export const buildToonPrompt = (
   text: string,
   targetLang: string,
@@ -1,8 +1,47 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import {
+  DEFAULT_FORMAT,
+  JsonParseMode,
+  KeyLayout,
+  LocaleDocument,
+  LocaleFile,
+  LocaleOptions,
+  LocaleParseError,
+  applyLocaleTemplates,
+  listLocaleFiles,
+  listTemplateFiles,
+  readLocaleDocument
+} from './formats';
+import { CellChange, HistoryEntry, HistoryGroup, createHistory } from './history';
+import {
+  DEFAULT_USAGE_PATTERNS,
+  KeyReference,
+  buildUsageIndex,
+  collectKeyReferences,
+  compileUsagePatterns,
+  findMissingReferences,
+  isKeyReferenced,
+  suggestKeyName,
+  unescapeString
+} from './usage';
+import { LocaleEdit, LocaleTarget, createWriteQueue } from './writeQueue';
+import { XliffVersion, buildXliff, parseXliff } from './xliff';
 
 let extensionContext: vscode.ExtensionContext | null = null;
+let outputChannel: vscode.OutputChannel | null = null;
+let diagnosticCollection: vscode.DiagnosticCollection | null = null;
+const openPanels = new Set<vscode.WebviewPanel>();
+const writeQueue = createWriteQueue();
+const history = createHistory();
+let catalogWatcher: { i18nDir: string; watcher: vscode.FileSystemWatcher } | null = null;
+let catalogSnapshot: CatalogSnapshot | null = null;
+let externalChangeTimer: NodeJS.Timeout | null = null;
+const hintCatalogs = new Map<string, { catalog: HintCatalog; watcher: vscode.FileSystemWatcher | null }>();
+let pendingOpenKey: string | null = null;
+let pendingTranslations: string[] = [];
+const hintsChanged = new vscode.EventEmitter<void>();
 
 type LanguageInfo = {
   code: string;
@@ -20,6 +59,44 @@ type TranslationValue = {
   [langCode: string]: string;
 };
 
+type ProjectInfo = {
+  id: string;
+  name: string;
+  hasI18n: boolean;
+};
+
+type CatalogInfo = {
+  id: string;
+  name: string;
+};
+
+type SharedKey = {
+  key: string;
+  sources: Record<string, string>;
+};
+
+type FileError = {
+  filePath: string;
+  file: string;
+  lang: string;
+  message: string;
+  line: number;
+  column: number;
+};
+
+type CatalogSnapshot = {
+  i18nDir: string;
+  status: InitPayload['status'];
+  languages: string[];
+  values: Record<string, TranslationValue>;
+};
+
+type CatalogDelta = {
+  added: string[];
+  removed: string[];
+  updated: Array<{ key: string; lang: string; value: string }>;
+};
+
 type TokenUsageReport = {
   totalTokens: number;
   promptTokens: number;
@@ -34,23 +111,103 @@ type InitPayload = {
   languages: LanguageInfo[];
   keys: TranslationKey[];
   values: Record<string, TranslationValue>;
+  comments: Record<string, Record<string, string>>;
+  namespaces: string[];
+  defaultNamespace: string | null;
+  projects: ProjectInfo[];
+  activeProject: string | null;
+  catalogs: CatalogInfo[];
+  activeCatalog: string | null;
+  sharedKeys: SharedKey[];
+  fileErrors: FileError[];
+  reviewed: ReviewState;
   sourceLangCode: string;
   openaiApiKey: string;
   openaiModel: string;
+  qaRules: QaRules;
   tokenReport: TokenUsageReport;
   locale: string;
   i18nFolder: string;
-  status: 'ok' | 'missingWorkspace' | 'missingFolder' | 'emptyFolder';
+  status: 'ok' | 'missingWorkspace' | 'missingFolder' | 'emptyFolder' | 'invalidFiles';
   error?: string;
 };
 
+type KeyRename = {
+  from: string;
+  to: string;
+};
+
+type BatchOperation =
+  | { kind: 'delete' }
+  | { kind: 'move'; prefix: string }
+  | { kind: 'clear'; lang: string }
+  | { kind: 'setValues'; values: Array<{ key: string; lang: string; value: string }>; history: HistoryEntry['kind'] }
+  | { kind: 'review'; langs: string[] }
+  | { kind: 'export' };
+
+type ReviewState = Record<string, string[]>;
+
+type QaRules = Record<
+  string,
+  { rules?: Record<string, boolean>; maxLengthRatio?: number; forbiddenTerms?: string[] }
+>;
+
+type MissingKey = {
+  key: string;
+  defaultValue: string | null;
+  filePath: string;
+  file: string;
+  line: number;
+  column: number;
+  references: number;
+};
+
+type UsageScan = {
+  catalog: string;
+  unusedKeys: string[];
+  missingKeys: MissingKey[];
+  scannedFiles: number;
+  dynamicPrefixes: string[];
+  scannedAt: string;
+};
+
+type HintCatalog = {
+  i18nDir: string | null;
+  languages: string[];
+  sourceLangCode: string;
+  defaultNamespace: string | null;
+  keys: string[];
+  values: Record<string, Record<string, string>>;
+};
+
+type ExtractTarget = {
+  range: vscode.Range;
+  text: string;
+  jsx: boolean;
+};
+
+type CatalogTarget = {
+  project?: string;
+  catalog?: string;
+};
+
 type WebviewMessage =
   | { type: 'ready' }
-  | { type: 'updateValue'; key: string; lang: string; value: string }
-  | { type: 'addKey'; key: string; sourceLang: string; value: string }
-  | { type: 'deleteKey'; key: string }
-  | { type: 'addLanguage'; lang: string }
-  | { type: 'initI18n' }
+  | ({ type: 'updateValue'; key: string; lang: string; value: string; group?: HistoryGroup } & CatalogTarget)
+  | ({ type: 'addKey'; key: string; sourceLang: string; value: string; group?: HistoryGroup } & CatalogTarget)
+  | ({ type: 'deleteKey'; key: string; group?: HistoryGroup } & CatalogTarget)
+  | ({ type: 'renameKey'; from: string; to: string; subtree?: boolean; updateUsages?: boolean } & CatalogTarget)
+  | ({ type: 'duplicateKey'; from: string; to: string; sourceLang: string; clearTargets?: boolean } & CatalogTarget)
+  | ({ type: 'batch'; keys: string[]; operation: BatchOperation } & CatalogTarget)
+  | ({ type: 'scanUsages' } & CatalogTarget)
+  | ({ type: 'deleteUnusedKeys'; keys: string[] } & CatalogTarget)
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | ({ type: 'addLanguage'; lang: string } & CatalogTarget)
+  | ({ type: 'initI18n' } & CatalogTarget)
+  | { type: 'selectProject'; project: string }
+  | { type: 'selectCatalog'; catalog: string }
+  | { type: 'openFile'; filePath: string; line: number; column: number }
   | { type: 'refresh' }
   | {
       type: 'recordTokenUsage';
@@ -67,9 +224,32 @@ type WebviewMessage =
       key: 'sourceLanguage' | 'openaiApiKey' | 'openaiModel';
       value: string;
       scope?: 'global' | 'workspace';
-    };
+    }
+  | { type: 'updateConfig'; key: 'qa'; value: QaRules; scope?: 'global' | 'workspace' };
 
 const COMMAND_ID = 'polyglotManager.open';
+const EXPORT_XLIFF_COMMAND_ID = 'polyglotManager.exportXliff';
+const IMPORT_XLIFF_COMMAND_ID = 'polyglotManager.importXliff';
+const OPEN_KEY_COMMAND_ID = 'polyglotManager.openKey';
+const EXTRACT_STRING_COMMAND_ID = 'polyglotManager.extractString';
+const SOURCE_DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+  'typescript',
+  'typescriptreact',
+  'javascript',
+  'javascriptreact',
+  'vue',
+  'svelte',
+  'html'
+].map(language => ({ scheme: 'file', language }));
+const HINT_MAX_LENGTH = 40;
+const COMPLETION_PROBE = 'x';
+const STRING_LITERAL = /(['"`])((?:\\.|(?!\1)[^\\])*)\1/g;
+const JSX_LANGUAGES = ['typescriptreact', 'javascriptreact', 'vue', 'svelte', 'html'];
+// Text ending in `<tag ... attr=`: a string after it is an attribute value.
+const JSX_ATTRIBUTE = /<[\w.:-]+[^<>]*\s[\w:-]+=\s*$/;
+const ACTIVE_PROJECT_STATE_KEY = 'activeProject';
+const ACTIVE_CATALOG_STATE_KEY = 'activeCatalog';
+const REVIEW_STATE_KEY = 'reviewState';
 
 export function activate(context: vscode.ExtensionContext) {
   extensionContext = context;
@@ -91,6 +271,11 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     panel.webview.html = getWebviewHtml(context, panel.webview);
+    openPanels.add(panel);
+    panel.onDidDispose(() => {
+      openPanels.delete(panel);
+      if (openPanels.size === 0) stopWatchingCatalog();
+    });
 
     const updateTheme = () => {
       const kind = vscode.window.activeColorTheme.kind;
@@ -111,74 +296,535 @@ export function activate(context: vscode.ExtensionContext) {
     panel.onDidDispose(() => configListener.dispose());
 
     panel.webview.onDidReceiveMessage(async (message: WebviewMessage) => {
-      switch (message.type) {
-        case 'ready': {
-          const payload = await readI18nData();
-          panel.webview.postMessage({ type: 'init', payload });
-          break;
-        }
-        case 'refresh': {
-          const payload = await readI18nData();
-          panel.webview.postMessage({ type: 'init', payload });
-          break;
-        }
-        case 'initI18n': {
-          await initializeI18n();
-          const payload = await readI18nData();
-          panel.webview.postMessage({ type: 'init', payload });
-          break;
-        }
-        case 'updateValue': {
-          await updateTranslationValue(message.lang, message.key, message.value);
-          break;
-        }
-        case 'addKey': {
-          await addTranslationKey(message.key, message.sourceLang, message.value);
-          break;
-        }
-        case 'deleteKey': {
-          await deleteTranslationKey(message.key);
-          break;
-        }
-        case 'addLanguage': {
-          await addLanguageFile(message.lang);
-          const payload = await readI18nData();
-          panel.webview.postMessage({ type: 'init', payload });
-          break;
-        }
-        case 'recordTokenUsage': {
-          const report = await updateTokenReport(message.usage);
-          panel.webview.postMessage({ type: 'tokenReport', payload: report });
-          break;
-        }
-        case 'updateConfig': {
-          const config = vscode.workspace.getConfiguration('polyglotManager');
-          const target =
-            message.scope === 'workspace'
-              ? vscode.ConfigurationTarget.Workspace
-              : vscode.ConfigurationTarget.Global;
-          await config.update(message.key, message.value, target);
-          break;
+      try {
+        await handleWebviewMessage(panel, message);
+      } catch (error) {
+        showWriteError(error);
+      }
+    });
+  });
+
+  const exportXliffCommand = vscode.commands.registerCommand(EXPORT_XLIFF_COMMAND_ID, () => exportXliff());
+  const importXliffCommand = vscode.commands.registerCommand(IMPORT_XLIFF_COMMAND_ID, importXliff);
+
+  const openKeyCommand = vscode.commands.registerCommand(
+    OPEN_KEY_COMMAND_ID,
+    (key: string, i18nDir?: string | null) => openKeyInPanel(key, i18nDir)
+  );
+  const extractStringCommand = vscode.commands.registerCommand(EXTRACT_STRING_COMMAND_ID, extractStringToKey);
+
+  const inlayHintsProvider = vscode.languages.registerInlayHintsProvider(SOURCE_DOCUMENT_SELECTOR, {
+    onDidChangeInlayHints: hintsChanged.event,
+    provideInlayHints: provideKeyInlayHints
+  });
+  const hoverProvider = vscode.languages.registerHoverProvider(SOURCE_DOCUMENT_SELECTOR, {
+    provideHover: provideKeyHover
+  });
+  const completionProvider = vscode.languages.registerCompletionItemProvider(
+    SOURCE_DOCUMENT_SELECTOR,
+    { provideCompletionItems: provideKeyCompletions },
+    "'",
+    '"',
+    '`',
+    '.',
+    ':'
+  );
+  const extractActionProvider = vscode.languages.registerCodeActionsProvider(
+    SOURCE_DOCUMENT_SELECTOR,
+    { provideCodeActions: provideExtractActions },
+    { providedCodeActionKinds: [vscode.CodeActionKind.RefactorExtract] }
+  );
+  const hintConfigListener = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration('polyglotManager')) invalidateHintCatalog();
+  });
+
+  const workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+    invalidateHintCatalog();
+    refreshOpenPanels();
+  });
+
+  context.subscriptions.push(
+    command,
+    exportXliffCommand,
+    importXliffCommand,
+    openKeyCommand,
+    extractStringCommand,
+    inlayHintsProvider,
+    hoverProvider,
+    completionProvider,
+    extractActionProvider,
+    hintConfigListener,
+    hintsChanged,
+    workspaceFoldersListener,
+    statusBarItem
+  );
+}
+
+export function deactivate() {
+  hintCatalogs.forEach(entry => entry.watcher?.dispose());
+  hintCatalogs.clear();
+}
+
+async function handleWebviewMessage(panel: vscode.WebviewPanel, message: WebviewMessage) {
+  switch (message.type) {
+    case 'ready': {
+      const payload = await readI18nData();
+      panel.webview.postMessage({ type: 'init', payload });
+      panel.webview.postMessage({ type: 'history', payload: history.snapshot() });
+      if (pendingOpenKey) {
+        panel.webview.postMessage({ type: 'openKey', key: pendingOpenKey });
+        pendingOpenKey = null;
+      }
+      if (pendingTranslations.length > 0) {
+        panel.webview.postMessage({ type: 'translateKeys', keys: pendingTranslations });
+        pendingTranslations = [];
+      }
+      break;
+    }
+    case 'refresh': {
+      const payload = await readI18nData();
+      panel.webview.postMessage({ type: 'init', payload });
+      break;
+    }
+    case 'initI18n': {
+      await initializeI18n(getMessageI18nDir(message));
+      const payload = await readI18nData();
+      panel.webview.postMessage({ type: 'init', payload });
+      break;
+    }
+    case 'selectProject': {
+      await extensionContext?.workspaceState.update(ACTIVE_PROJECT_STATE_KEY, message.project);
+      invalidateHintCatalog();
+      await refreshOpenPanels();
+      break;
+    }
+    case 'selectCatalog': {
+      await extensionContext?.workspaceState.update(ACTIVE_CATALOG_STATE_KEY, message.catalog);
+      invalidateHintCatalog();
+      await refreshOpenPanels();
+      break;
+    }
+    case 'openFile': {
+      const document = await vscode.workspace.openTextDocument(message.filePath);
+      const position = new vscode.Position(Math.max(0, message.line - 1), Math.max(0, message.column - 1));
+      await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+      break;
+    }
+    case 'updateValue': {
+      const i18nDir = getMessageI18nDir(message);
+      const changes = await updateTranslationValue(message.lang, message.key, message.value, i18nDir);
+      recordHistory('updateValue', message.group, i18nDir, changes);
+      if (i18nDir) await unmarkReviewed(i18nDir, changes);
+      break;
+    }
+    case 'addKey': {
+      const i18nDir = getMessageI18nDir(message);
+      try {
+        const changes = await addTranslationKey(message.key, message.sourceLang, message.value, i18nDir);
+        recordHistory('addKey', message.group, i18nDir, changes);
+      } catch (error) {
+        // The panel already shows the new row; reload it so it matches the files again.
+        await refreshOpenPanels();
+        throw error;
+      }
+      break;
+    }
+    case 'deleteKey': {
+      const i18nDir = getMessageI18nDir(message);
+      try {
+        const changes = await deleteTranslationKey(message.key, i18nDir);
+        recordHistory('deleteKey', message.group, i18nDir, changes);
+      } catch (error) {
+        await refreshOpenPanels();
+        throw error;
+      }
+      break;
+    }
+    case 'renameKey': {
+      const i18nDir = getMessageI18nDir(message);
+      const { renames, changes } = await renameTranslationKey(
+        message.from,
+        message.to,
+        Boolean(message.subtree),
+        i18nDir
+      );
+      recordHistory('renameKey', undefined, i18nDir, changes);
+      const root = getProjectRoot(message.project);
+      if (message.updateUsages && root && i18nDir && renames.length > 0) {
+        const { updated, skipped } = await rewriteKeyUsages(root, i18nDir, renames);
+        vscode.window.showInformationMessage(
+          `Kraken i18n: renamed ${renames.length} key(s) and updated ${updated} source file(s).`
+        );
+        if (skipped.length > 0) {
+          vscode.window.showWarningMessage(
+            `Kraken i18n: key references were not updated in files with unsaved changes: ${skipped.join(', ')}`
+          );
         }
-        default:
-          break;
       }
+      await refreshOpenPanels();
+      break;
+    }
+    case 'duplicateKey': {
+      const i18nDir = getMessageI18nDir(message);
+      const changes = await duplicateTranslationKey(
+        message.from,
+        message.to,
+        message.clearTargets ? message.sourceLang : null,
+        i18nDir
+      );
+      recordHistory('duplicateKey', undefined, i18nDir, changes);
+      break;
+    }
+    case 'batch': {
+      const i18nDir = getMessageI18nDir(message);
+      if (!i18nDir || message.keys.length === 0) break;
+      if (message.operation.kind === 'export') {
+        await exportXliff(message.keys);
+        break;
+      }
+      await applyBatchOperation(message.keys, message.operation, i18nDir);
+      await refreshOpenPanels();
+      break;
+    }
+    case 'scanUsages': {
+      const i18nDir = getMessageI18nDir(message);
+      const root = getProjectRoot(message.project);
+      let payload: UsageScan | null = null;
+      try {
+        payload = i18nDir && root ? await scanKeyUsages(root, i18nDir) : null;
+      } finally {
+        // Always answer so the panel stops waiting; errors still reach showWriteError.
+        panel.webview.postMessage({ type: 'usageScan', payload });
+      }
+      break;
+    }
+    case 'deleteUnusedKeys': {
+      const i18nDir = getMessageI18nDir(message);
+      const root = getProjectRoot(message.project);
+      if (!i18nDir || !root || message.keys.length === 0) break;
+      // Scan again so keys referenced since the last scan are kept.
+      const scan = await scanKeyUsages(root, i18nDir);
+      const unused = new Set(scan.unusedKeys);
+      const keys = message.keys.filter(key => unused.has(key));
+      if (keys.length > 0) {
+        await applyBatchOperation(keys, { kind: 'delete' }, i18nDir);
+      }
+      const skipped = message.keys.length - keys.length;
+      vscode.window.showInformationMessage(
+        skipped > 0
+          ? `Kraken i18n: deleted ${keys.length} unused key(s); kept ${skipped} that are now referenced.`
+          : `Kraken i18n: deleted ${keys.length} unused key(s).`
+      );
+      panel.webview.postMessage({
+        type: 'usageScan',
+        payload: { ...scan, unusedKeys: scan.unusedKeys.filter(key => !keys.includes(key)) }
+      });
+      await refreshOpenPanels();
+      break;
+    }
+    case 'undo': {
+      const entry = history.undo();
+      if (!entry) break;
+      try {
+        await applyHistoryEntry(entry, 'before');
+      } catch (error) {
+        // The entry was not applied, so the cursor goes back to where it was.
+        history.redo();
+        throw error;
+      } finally {
+        await refreshOpenPanels();
+        postHistory();
+      }
+      break;
+    }
+    case 'redo': {
+      const entry = history.redo();
+      if (!entry) break;
+      try {
+        await applyHistoryEntry(entry, 'after');
+      } catch (error) {
+        // The entry was not applied, so the cursor goes back to where it was.
+        history.undo();
+        throw error;
+      } finally {
+        await refreshOpenPanels();
+        postHistory();
+      }
+      break;
+    }
+    case 'addLanguage': {
+      await addLanguageFile(message.lang, getMessageI18nDir(message));
+      const payload = await readI18nData();
+      panel.webview.postMessage({ type: 'init', payload });
+      break;
+    }
+    case 'recordTokenUsage': {
+      const report = await updateTokenReport(message.usage);
+      panel.webview.postMessage({ type: 'tokenReport', payload: report });
+      break;
+    }
+    case 'updateConfig': {
+      const config = vscode.workspace.getConfiguration('polyglotManager');
+      const target =
+        message.scope === 'workspace'
+          ? vscode.ConfigurationTarget.Workspace
+          : vscode.ConfigurationTarget.Global;
+      await config.update(message.key, message.value, target);
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+function getOutputChannel(): vscode.OutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel('Kraken i18n');
+    extensionContext?.subscriptions.push(outputChannel);
+  }
+  return outputChannel;
+}
+
+function getDiagnosticCollection(): vscode.DiagnosticCollection {
+  if (!diagnosticCollection) {
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('kraken-i18n');
+    extensionContext?.subscriptions.push(diagnosticCollection);
+  }
+  return diagnosticCollection;
+}
+
+function reportFileErrors(fileErrors: FileError[]) {
+  const collection = getDiagnosticCollection();
+  collection.clear();
+  for (const error of fileErrors) {
+    const position = new vscode.Position(Math.max(0, error.line - 1), Math.max(0, error.column - 1));
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(position, position.translate(0, 1)),
+      `Kraken i18n: ${error.message}. Edits to "${error.lang}" are blocked until the file is fixed.`,
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = 'Kraken i18n';
+    collection.set(vscode.Uri.file(error.filePath), [
+      ...(collection.get(vscode.Uri.file(error.filePath)) ?? []),
+      diagnostic
+    ]);
+  }
+}
+
+function showWriteError(error: unknown) {
+  if (error instanceof LocaleParseError) {
+    vscode.window.showWarningMessage(
+      `Kraken i18n: the locale file has a syntax error at line ${error.line}, column ${error.column}. Fix it before editing this language.`
+    );
+    return;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  getOutputChannel().appendLine(`[error] ${message}`);
+  vscode.window.showErrorMessage(`Kraken i18n: ${message}`);
+}
+
+function recordHistory(
+  kind: HistoryEntry['kind'],
+  group: HistoryGroup | undefined,
+  i18nDir: string | null,
+  changes: CellChange[]
+) {
+  if (!i18nDir) return;
+  history.record({
+    kind: group?.kind ?? kind,
+    groupId: group?.id,
+    i18nDir,
+    timestamp: Date.now(),
+    changes
+  });
+  postHistory();
+}
+
+function postHistory() {
+  const payload = history.snapshot();
+  openPanels.forEach(panel => panel.webview.postMessage({ type: 'history', payload }));
+}
+
+async function applyHistoryEntry(entry: HistoryEntry, side: 'before' | 'after') {
+  const changes = side === 'before' ? [...entry.changes].reverse() : entry.changes;
+  const byKey = new Map<string, CellChange[]>();
+  for (const change of changes) {
+    byKey.set(change.key, [...(byKey.get(change.key) ?? []), change]);
+  }
+
+  const opposite = side === 'before' ? 'after' : 'before';
+
+  for (const [key, keyChanges] of byKey) {
+    const exists = keyExistsElsewhere(entry.i18nDir, key, keyChanges);
+    if (keyChanges.every(change => change[side] === null) && !exists) {
+      await deleteTranslationKey(key, entry.i18nDir);
+      continue;
+    }
+
+    const writes: Promise<unknown>[] = keyChanges.map(change => {
+      const value = change[side];
+      return value === null
+        ? removeTranslationValue(change.lang, key, entry.i18nDir)
+        : updateTranslationValue(change.lang, key, value, entry.i18nDir);
     });
+    if (keyChanges.every(change => change[opposite] === null) && !exists) {
+      const { namespace, localKey } = splitCatalogKey(listLocaleFiles(entry.i18nDir), key);
+      writes.push(...addTemplateKey(entry.i18nDir, namespace, localKey));
+    }
+    await Promise.all(writes);
+  }
+  await unmarkReviewed(entry.i18nDir, entry.changes);
+}
+
+function keyExistsElsewhere(i18nDir: string, key: string, changes: CellChange[]): boolean {
+  const files = listLocaleFiles(i18nDir);
+  const { namespace, localKey } = splitCatalogKey(files, key);
+  const touched = new Set(changes.map(change => change.lang));
+  return files.some(file => {
+    if (touched.has(file.code) || (file.namespace ?? null) !== namespace) return false;
+    try {
+      return readLocaleDocument(file, getLocaleOptions()).has(localKey);
+    } catch {
+      return false;
+    }
   });
+}
+
+async function refreshOpenPanels() {
+  if (openPanels.size === 0) return;
+  const payload = await readI18nData();
+  openPanels.forEach(panel => panel.webview.postMessage({ type: 'init', payload }));
+}
 
-  context.subscriptions.push(command, statusBarItem);
+function trackCatalog(
+  i18nDir: string | null,
+  status: InitPayload['status'],
+  languages: string[],
+  values: Record<string, TranslationValue>
+) {
+  if (!i18nDir || openPanels.size === 0) {
+    stopWatchingCatalog();
+    return;
+  }
+
+  catalogSnapshot = {
+    i18nDir,
+    status,
+    languages,
+    values: Object.fromEntries(Object.entries(values).map(([key, langs]) => [key, { ...langs }]))
+  };
+  if (catalogWatcher?.i18nDir === i18nDir) return;
+
+  catalogWatcher?.watcher.dispose();
+  const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(i18nDir, '**/*'));
+  watcher.onDidChange(scheduleExternalChange);
+  watcher.onDidCreate(scheduleExternalChange);
+  watcher.onDidDelete(scheduleExternalChange);
+  catalogWatcher = { i18nDir, watcher };
+}
+
+function stopWatchingCatalog() {
+  catalogWatcher?.watcher.dispose();
+  catalogWatcher = null;
+  catalogSnapshot = null;
+  if (externalChangeTimer) {
+    clearTimeout(externalChangeTimer);
+    externalChangeTimer = null;
+  }
+}
+
+function updateSnapshot(i18nDir: string, apply: (values: Record<string, TranslationValue>) => void) {
+  if (catalogSnapshot?.i18nDir === i18nDir) apply(catalogSnapshot.values);
+}
+
+function scheduleExternalChange() {
+  if (externalChangeTimer) clearTimeout(externalChangeTimer);
+  externalChangeTimer = setTimeout(() => {
+    externalChangeTimer = null;
+    applyExternalChange();
+  }, 300);
+}
+
+async function applyExternalChange() {
+  const previous = catalogSnapshot;
+  if (!previous || openPanels.size === 0) return;
+
+  const payload = await readI18nData();
+  const sameLanguages =
+    payload.languages.map(lang => lang.code).join('|') === previous.languages.join('|');
+  const unchangedShape =
+    payload.status === 'ok' &&
+    previous.status === 'ok' &&
+    payload.activeCatalog === previous.i18nDir &&
+    sameLanguages;
+  if (!unchangedShape) {
+    openPanels.forEach(panel => panel.webview.postMessage({ type: 'init', payload }));
+    return;
+  }
+
+  const delta = diffCatalog(previous.values, payload.values);
+  if (!delta) return;
+  openPanels.forEach(panel => panel.webview.postMessage({ type: 'externalChange', payload: delta }));
 }
 
-export function deactivate() {}
+function diffCatalog(
+  previous: Record<string, TranslationValue>,
+  next: Record<string, TranslationValue>
+): CatalogDelta | null {
+  const delta: CatalogDelta = { added: [], removed: [], updated: [] };
+
+  for (const [key, langs] of Object.entries(next)) {
+    const before = previous[key];
+    if (!before) delta.added.push(key);
+    for (const [lang, value] of Object.entries(langs)) {
+      if (before?.[lang] !== value) delta.updated.push({ key, lang, value });
+    }
+  }
+  for (const key of Object.keys(previous)) {
+    if (!(key in next)) delta.removed.push(key);
+  }
+
+  const isEmpty = delta.added.length === 0 && delta.removed.length === 0 && delta.updated.length === 0;
+  return isEmpty ? null : delta;
+}
 
 function getWorkspaceRoot(): string | null {
-  const folder = vscode.workspace.workspaceFolders?.[0];
-  return folder?.uri.fsPath ?? null;
+  return getActiveWorkspaceFolder()?.uri.fsPath ?? null;
+}
+
+function getActiveWorkspaceFolder(): vscode.WorkspaceFolder | null {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) return null;
+
+  const stored = extensionContext?.workspaceState.get<string>(ACTIVE_PROJECT_STATE_KEY);
+  const selected = folders.find(folder => folder.uri.toString() === stored);
+  if (selected) return selected;
+
+  return folders.find(folder => resolveI18nDir(folder.uri.fsPath) !== null) ?? folders[0];
 }
 
-function getI18nFolderName(): string {
+function getProjectRoot(project: string | undefined): string | null {
+  const folder = vscode.workspace.workspaceFolders?.find(
+    candidate => candidate.uri.toString() === project
+  );
+  return folder?.uri.fsPath ?? getWorkspaceRoot();
+}
+
+function getProjects(): ProjectInfo[] {
+  return (vscode.workspace.workspaceFolders ?? []).map(folder => ({
+    id: folder.uri.toString(),
+    name: folder.name,
+    hasI18n: resolveI18nDir(folder.uri.fsPath) !== null
+  }));
+}
+
+function getI18nFolderPatterns(): string[] {
   const config = vscode.workspace.getConfiguration('polyglotManager');
-  return config.get<string>('i18nFolder', 'i18n');
+  const configured = config.get<string | string[]>('i18nFolder', 'i18n');
+  const patterns = (Array.isArray(configured) ? configured : [configured])
+    .map(pattern => pattern.trim())
+    .filter(Boolean);
+  return patterns.length > 0 ? patterns : ['i18n'];
 }
 
 function getSourceLanguagePreference(): string {
@@ -186,6 +832,48 @@ function getSourceLanguagePreference(): string {
   return config.get<string>('sourceLanguage', 'en');
 }
 
+function getDefaultNamespacePreference(): string {
+  const config = vscode.workspace.getConfiguration('polyglotManager');
+  return config.get<string>('defaultNamespace', 'common');
+}
+
+function getKeyLayout(): KeyLayout {
+  const config = vscode.workspace.getConfiguration('polyglotManager');
+  return config.get<KeyLayout>('keyLayout', 'auto');
+}
+
+function getJsonParseMode(): JsonParseMode {
+  const config = vscode.workspace.getConfiguration('polyglotManager');
+  return config.get<JsonParseMode>('jsonParseMode', 'strict');
+}
+
+function getLocaleOptions(): LocaleOptions {
+  return { keyLayout: getKeyLayout(), jsonParseMode: getJsonParseMode() };
+}
+
+function getUsagePatterns(): string[] {
+  const config = vscode.workspace.getConfiguration('polyglotManager');
+  const patterns = config.get<string[]>('usagePatterns', DEFAULT_USAGE_PATTERNS);
+  return Array.isArray(patterns) && patterns.length > 0 ? patterns : DEFAULT_USAGE_PATTERNS;
+}
+
+function getInlineHintsEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration('polyglotManager');
+  return config.get<boolean>('inlineHints', true);
+}
+
+function getExtractTemplate(jsx: boolean): string {
+  const config = vscode.workspace.getConfiguration('polyglotManager');
+  return jsx
+    ? config.get<string>('extractJsxTemplate', "{t('{key}')}")
+    : config.get<string>('extractTemplate', "t('{key}')");
+}
+
+function getExtractAutoTranslate(): boolean {
+  const config = vscode.workspace.getConfiguration('polyglotManager');
+  return config.get<boolean>('extractAutoTranslate', false);
+}
+
 function getOpenAiApiKey(): string {
   const config = vscode.workspace.getConfiguration('polyglotManager');
   return config.get<string>('openaiApiKey', '');
@@ -196,6 +884,12 @@ function getOpenAiModel(): string {
   return config.get<string>('openaiModel', 'gpt-5-nano-2025-08-07');
 }
 
+function getQaRules(): QaRules {
+  const config = vscode.workspace.getConfiguration('polyglotManager');
+  const rules = config.get<QaRules>('qa', {});
+  return rules && typeof rules === 'object' && !Array.isArray(rules) ? rules : {};
+}
+
 function getDefaultTokenReport(): TokenUsageReport {
   return {
     totalTokens: 0,
@@ -240,49 +934,116 @@ async function updateTokenReport(usage: {
   return report;
 }
 
-function resolveI18nDir(): string | null {
-  const root = getWorkspaceRoot();
+function resolveI18nDir(root = getWorkspaceRoot()): string | null {
   if (!root) return null;
-
-  const configured = getI18nFolderName();
-  if (path.isAbsolute(configured) && fs.existsSync(configured)) {
-    return configured;
-  }
-
-  const direct = path.join(root, configured);
-  if (fs.existsSync(direct)) {
-    return direct;
-  }
-
-  const folderName = path.basename(configured);
-  return findFolderByName(root, folderName);
+  return pickActiveCatalog(findI18nDirs(root));
 }
 
-function getOrCreateI18nDir(): string | null {
-  const root = getWorkspaceRoot();
+function getOrCreateI18nDir(root = getWorkspaceRoot(), catalog?: string): string | null {
   if (!root) return null;
 
-  const existing = resolveI18nDir();
+  const catalogs = findI18nDirs(root);
+  if (catalog && catalogs.includes(catalog)) return catalog;
+
+  const existing = pickActiveCatalog(catalogs);
   if (existing) return existing;
 
-  const configured = getI18nFolderName();
+  const configured = getI18nFolderPatterns().find(pattern => !isGlobPattern(pattern));
+  if (!configured) return null;
   const target = path.isAbsolute(configured) ? configured : path.join(root, configured);
   fs.mkdirSync(target, { recursive: true });
   return target;
 }
 
-function findFolderByName(root: string, folderName: string): string | null {
-  const target = folderName.toLowerCase();
-  const skip = new Set([
-    'node_modules',
-    'dist',
-    'out',
-    'coverage',
-    '.git',
-    '.vscode',
-    '.vscode-test',
-    'media'
-  ]);
+function getMessageI18nDir(message: { project?: string; catalog?: string }): string | null {
+  return getOrCreateI18nDir(getProjectRoot(message.project), message.catalog);
+}
+
+function pickActiveCatalog(catalogs: string[]): string | null {
+  const stored = extensionContext?.workspaceState.get<string>(ACTIVE_CATALOG_STATE_KEY);
+  return catalogs.find(dir => dir === stored) ?? catalogs[0] ?? null;
+}
+
+function getCatalogName(root: string, dir: string): string {
+  const relative = path.relative(root, dir);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return dir;
+  }
+  return relative.split(path.sep).join('/');
+}
+
+function findI18nDirs(root: string): string[] {
+  const found = new Set<string>();
+
+  for (const pattern of getI18nFolderPatterns()) {
+    if (isGlobPattern(pattern)) {
+      const matcher = globToRegExp(pattern);
+      findFolders(root, relative => matcher.test(relative)).forEach(dir => found.add(dir));
+      continue;
+    }
+
+    if (path.isAbsolute(pattern)) {
+      if (fs.existsSync(pattern)) found.add(pattern);
+      continue;
+    }
+
+    const direct = path.join(root, pattern);
+    if (fs.existsSync(direct)) {
+      found.add(direct);
+      continue;
+    }
+
+    const target = path.basename(pattern).toLowerCase();
+    findFolders(root, (_relative, name) => name.toLowerCase() === target).forEach(dir =>
+      found.add(dir)
+    );
+  }
+
+  return Array.from(found).sort((a, b) => a.localeCompare(b));
+}
+
+function isGlobPattern(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  let source = '';
+  for (let index = 0; index < normalized.length; index += 1) {
+    const char = normalized[index];
+    if (char === '*' && normalized[index + 1] === '*') {
+      const spansFolders = normalized[index + 2] === '/';
+      source += spansFolders ? '(?:.*/)?' : '.*';
+      index += spansFolders ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+const SOURCE_FILE_GLOB = '**/*.{ts,tsx,js,jsx,mjs,cjs,vue,svelte,html}';
+
+const FOLDER_SEARCH_SKIP = new Set([
+  'node_modules',
+  'dist',
+  'out',
+  'coverage',
+  '.git',
+  '.vscode',
+  '.vscode-test',
+  'media'
+]);
+
+function findFolders(
+  root: string,
+  matches: (relativePath: string, name: string) => boolean
+): string[] {
+  const found: string[] = [];
   const queue: Array<{ dir: string; depth: number }> = [{ dir: root, depth: 0 }];
   const maxDepth = 6;
 
@@ -302,12 +1063,14 @@ function findFolderByName(root: string, folderName: string): string | null {
       const name = entry.name;
       const lower = name.toLowerCase();
       const fullPath = path.join(current.dir, name);
+      const relativePath = path.relative(root, fullPath).split(path.sep).join('/');
 
-      if (lower === target) {
-        return fullPath;
+      if (matches(relativePath, name)) {
+        found.push(fullPath);
+        continue;
       }
 
-      if (skip.has(lower) || name.startsWith('.')) {
+      if (FOLDER_SEARCH_SKIP.has(lower) || name.startsWith('.')) {
         continue;
       }
 
@@ -317,27 +1080,47 @@ function findFolderByName(root: string, folderName: string): string | null {
     }
   }
 
-  return null;
+  return found;
 }
 
 async function readI18nData(): Promise<InitPayload> {
-  const root = getWorkspaceRoot();
-  const i18nDir = resolveI18nDir();
-  const i18nFolder = getI18nFolderName();
+  const activeFolder = getActiveWorkspaceFolder();
+  const root = activeFolder?.uri.fsPath ?? null;
+  const projects = getProjects();
+  const activeProject = activeFolder?.uri.toString() ?? null;
+  const catalogDirs = root ? findI18nDirs(root) : [];
+  const catalogs = catalogDirs.map(dir => ({ id: dir, name: getCatalogName(root ?? dir, dir) }));
+  const i18nDir = pickActiveCatalog(catalogDirs);
+  const activeCatalog = i18nDir;
+  const i18nFolder = getI18nFolderPatterns().join(', ');
   const sourcePreference = getSourceLanguagePreference();
   const openaiApiKey = getOpenAiApiKey();
   const openaiModel = getOpenAiModel();
+  const qaRules = getQaRules();
   const tokenReport = getTokenReport();
   const locale = vscode.env.language;
 
   if (!root) {
+    trackCatalog(null, 'missingWorkspace', [], {});
+    reportFileErrors([]);
     return {
       languages: [],
       keys: [],
       values: {},
+      comments: {},
+      namespaces: [],
+      defaultNamespace: null,
+      projects,
+      activeProject,
+      catalogs,
+      activeCatalog,
+      sharedKeys: [],
+      fileErrors: [],
+      reviewed: {},
       sourceLangCode: sourcePreference,
       openaiApiKey,
       openaiModel,
+      qaRules,
       tokenReport,
       locale,
       i18nFolder,
@@ -347,13 +1130,26 @@ async function readI18nData(): Promise<InitPayload> {
   }
 
   if (!i18nDir || !fs.existsSync(i18nDir)) {
+    trackCatalog(null, 'missingFolder', [], {});
+    reportFileErrors([]);
     return {
       languages: [],
       keys: [],
       values: {},
+      comments: {},
+      namespaces: [],
+      defaultNamespace: null,
+      projects,
+      activeProject,
+      catalogs,
+      activeCatalog,
+      sharedKeys: [],
+      fileErrors: [],
+      reviewed: {},
       sourceLangCode: sourcePreference,
       openaiApiKey,
       openaiModel,
+      qaRules,
       tokenReport,
       locale,
       i18nFolder,
@@ -362,38 +1158,90 @@ async function readI18nData(): Promise<InitPayload> {
     };
   }
 
-  const files = fs.readdirSync(i18nDir).filter(file => file.endsWith('.json'));
+  const files = listLocaleFiles(i18nDir);
   if (files.length === 0) {
+    trackCatalog(i18nDir, 'emptyFolder', [], {});
+    reportFileErrors([]);
     return {
       languages: [],
       keys: [],
       values: {},
+      comments: {},
+      namespaces: [],
+      defaultNamespace: null,
+      projects,
+      activeProject,
+      catalogs,
+      activeCatalog,
+      sharedKeys: [],
+      fileErrors: [],
+      reviewed: {},
       sourceLangCode: sourcePreference,
       openaiApiKey,
       openaiModel,
+      qaRules,
       tokenReport,
       locale,
       i18nFolder,
       status: 'emptyFolder',
-      error: 'Nenhum arquivo JSON encontrado em i18n.'
+      error: 'Nenhum arquivo de traducao (JSON/YAML/PO) encontrado em i18n.'
     };
   }
 
-  const languageCodes = files
-    .map(file => path.basename(file, '.json'))
+  const languageCodes = Array.from(new Set(files.map(file => file.code)))
     .sort(compareLanguageCodes);
+  const namespaces = getNamespaces(files);
 
   const languages = languageCodes.map(code => getLanguageInfo(code));
 
   const perLangValues: Record<string, Record<string, string>> = {};
   const allKeys = new Set<string>();
+  const comments: Record<string, Record<string, string>> = {};
+  const fileErrors: FileError[] = [];
 
-  for (const code of languageCodes) {
-    const filePath = path.join(i18nDir, `${code}.json`);
-    const json = readJsonFile(filePath);
-    const flattened = flattenObject(json);
-    perLangValues[code] = flattened;
-    Object.keys(flattened).forEach(key => allKeys.add(key));
+  const readDocument = (file: LocaleFile): LocaleDocument | null => {
+    try {
+      return readLocaleDocument(file, getLocaleOptions());
+    } catch (error) {
+      if (!(error instanceof LocaleParseError)) throw error;
+      fileErrors.push({
+        filePath: file.filePath,
+        file: path.relative(i18nDir, file.filePath).split(path.sep).join('/'),
+        lang: file.code,
+        message: error.message,
+        line: error.line,
+        column: error.column
+      });
+      return null;
+    }
+  };
+
+  const collectComments = (code: string, namespace: string | undefined, document: LocaleDocument) => {
+    for (const [key, comment] of Object.entries(document.comments?.() ?? {})) {
+      const catalogKey = toCatalogKey(namespace, key);
+      comments[catalogKey] = { ...comments[catalogKey], [code]: comment };
+    }
+  };
+
+  for (const file of files) {
+    const document = readDocument(file);
+    if (!document) continue;
+    const langValues = perLangValues[file.code] ?? {};
+    for (const [key, value] of Object.entries(document.values())) {
+      const catalogKey = toCatalogKey(file.namespace, key);
+      langValues[catalogKey] = value;
+      allKeys.add(catalogKey);
+    }
+    perLangValues[file.code] = langValues;
+    collectComments(file.code, file.namespace, document);
+  }
+
+  for (const template of listTemplateFiles(i18nDir)) {
+    const namespace = namespaces.length > 0 ? template.code : undefined;
+    const document = readDocument(template);
+    if (!document) continue;
+    Object.keys(document.values()).forEach(key => allKeys.add(toCatalogKey(namespace, key)));
+    collectComments(template.code, namespace, document);
   }
 
   const keyList = Array.from(allKeys).sort((a, b) => a.localeCompare(b));
@@ -415,189 +1263,1267 @@ async function readI18nData(): Promise<InitPayload> {
     ? sourcePreference
     : languageCodes[0] ?? sourcePreference;
 
+  const status = fileErrors.length > 0 ? 'invalidFiles' : 'ok';
+  const [firstError] = fileErrors;
+  trackCatalog(i18nDir, status, languageCodes, values);
+  reportFileErrors(fileErrors);
+
   return {
     languages,
     keys,
     values,
+    comments,
+    namespaces,
+    defaultNamespace: namespaces.length > 0 ? getDefaultNamespace(namespaces) : null,
+    projects,
+    activeProject,
+    catalogs,
+    activeCatalog,
+    sharedKeys: collectSharedKeys(catalogDirs, sourceLangCode),
+    fileErrors,
+    reviewed: getReviewState(i18nDir),
     sourceLangCode,
     openaiApiKey,
     openaiModel,
+    qaRules,
     tokenReport,
     locale,
     i18nFolder,
-    status: 'ok'
+    status,
+    error: firstError
+      ? `Arquivo invalido: ${firstError.file}:${firstError.line}:${firstError.column} (${firstError.message})`
+      : undefined
   };
 }
 
-async function initializeI18n() {
-  const i18nDir = getOrCreateI18nDir();
+async function initializeI18n(i18nDir = getOrCreateI18nDir()) {
   if (!i18nDir) return;
 
   const sourceLang = getSourceLanguagePreference();
-  const existing = fs.readdirSync(i18nDir).filter(file => file.endsWith('.json'));
-  if (existing.length > 0) return;
+  if (listLocaleFiles(i18nDir).length > 0) return;
 
-  const seed = {
-    app: {
-      title: 'App Title'
-    }
-  };
-  const filePath = path.join(i18nDir, `${sourceLang}.json`);
-  writeJsonFile(filePath, seed);
+  await writeQueue.enqueue(openLocaleFile(i18nDir, [], sourceLang, null), document => {
+    document.set('app.title', 'App Title');
+    return true;
+  });
 }
 
-async function updateTranslationValue(langCode: string, key: string, value: string) {
-  const i18nDir = getOrCreateI18nDir();
-  if (!i18nDir) return;
+async function updateTranslationValue(
+  langCode: string,
+  key: string,
+  value: string,
+  i18nDir = getOrCreateI18nDir()
+): Promise<CellChange[]> {
+  if (!i18nDir) return [];
+
+  const files = listLocaleFiles(i18nDir);
+  const { namespace, localKey } = splitCatalogKey(files, key);
+  const changes: CellChange[] = [];
+  await writeQueue.enqueue(openLocaleFile(i18nDir, files, langCode, namespace), document => {
+    changes.push({ key, lang: langCode, before: readValue(document, localKey), after: value });
+    document.set(localKey, value);
+    updateSnapshot(i18nDir, values => {
+      values[key] = { ...values[key], [langCode]: value };
+    });
+    return true;
+  });
+  return changes;
+}
 
-  const filePath = path.join(i18nDir, `${langCode}.json`);
-  const json = readJsonFile(filePath);
-  setNestedValue(json, key, value);
-  writeJsonFile(filePath, json);
+async function removeTranslationValue(langCode: string, key: string, i18nDir: string) {
+  const files = listLocaleFiles(i18nDir);
+  const { namespace, localKey } = splitCatalogKey(files, key);
+  const file = files.find(item => item.code === langCode && (item.namespace ?? null) === namespace);
+  if (!file) return;
+
+  await writeQueue.enqueue(openExistingFile(file), document => {
+    if (!document.remove(localKey)) return false;
+    updateSnapshot(i18nDir, values => {
+      if (values[key]) values[key] = { ...values[key], [langCode]: '' };
+    });
+    return true;
+  });
 }
 
-async function addTranslationKey(key: string, sourceLang: string, value: string) {
-  const i18nDir = getOrCreateI18nDir();
-  if (!i18nDir) return;
+function readValue(document: LocaleDocument, localKey: string): string | null {
+  return document.has(localKey) ? document.values()[localKey] ?? '' : null;
+}
+
+async function addTranslationKey(
+  key: string,
+  sourceLang: string,
+  value: string,
+  i18nDir = getOrCreateI18nDir()
+): Promise<CellChange[]> {
+  if (!i18nDir) return [];
 
-  const files = fs.readdirSync(i18nDir).filter(file => file.endsWith('.json'));
-  const codes = files.map(file => path.basename(file, '.json'));
+  const files = listLocaleFiles(i18nDir);
+  const { namespace, localKey } = splitCatalogKey(files, key);
+  const codes = Array.from(new Set(files.map(file => file.code)));
+  const changes: CellChange[] = [];
 
   const targetCodes = codes.includes(sourceLang)
     ? codes
     : [...codes, sourceLang];
 
-  for (const code of targetCodes) {
-    const filePath = path.join(i18nDir, `${code}.json`);
-    const json = readJsonFile(filePath);
-    if (getNestedValue(json, key) === undefined) {
-      setNestedValue(json, key, code === sourceLang ? value : '');
-      writeJsonFile(filePath, json);
+  const initialOf = (code: string) => (code === sourceLang ? value : '');
+  const targets = targetCodes.map(code => ({ code, target: openLocaleFile(i18nDir, files, code, namespace) }));
+  const templateEdits = templateKeyEdits(i18nDir, namespace, localKey);
+  assertWritable([
+    ...targets.map(({ code, target }): [LocaleTarget, LocaleEdit] => [
+      target,
+      document => {
+        document.set(localKey, initialOf(code));
+        return true;
+      }
+    ]),
+    ...templateEdits
+  ]);
+
+  const writes = targets.map(({ code, target }) =>
+    writeQueue.enqueue(target, document => {
+      if (document.has(localKey)) return false;
+      const initial = initialOf(code);
+      document.set(localKey, initial);
+      changes.push({ key, lang: code, before: null, after: initial });
+      updateSnapshot(i18nDir, values => {
+        values[key] = { ...values[key], [code]: initial };
+      });
+      return true;
+    })
+  );
+
+  await Promise.all([...writes, ...templateEdits.map(([target, edit]) => writeQueue.enqueue(target, edit))]);
+  return changes;
+}
+
+// Tries every edit on a freshly loaded copy, so a file that can't take it (a syntax error,
+// a key the format rejects) stops the whole operation before any file is written.
+function assertWritable(edits: Array<[LocaleTarget, LocaleEdit]>) {
+  edits.forEach(([target, edit]) => edit(target.load()));
+}
+
+function addTemplateKey(i18nDir: string, namespace: string | null, localKey: string): Promise<void>[] {
+  return templateKeyEdits(i18nDir, namespace, localKey).map(([target, edit]) => writeQueue.enqueue(target, edit));
+}
+
+function templateKeyEdits(
+  i18nDir: string,
+  namespace: string | null,
+  localKey: string
+): Array<[LocaleTarget, LocaleEdit]> {
+  return listTemplateFiles(i18nDir)
+    .filter(template => namespace === null || template.code === namespace)
+    .map(template => [
+      openExistingFile(template),
+      document => {
+        if (document.has(localKey)) return false;
+        document.set(localKey, '');
+        return true;
+      }
+    ]);
+}
+
+async function deleteTranslationKey(
+  key: string,
+  i18nDir = getOrCreateI18nDir()
+): Promise<CellChange[]> {
+  if (!i18nDir) return [];
+
+  const files = listLocaleFiles(i18nDir);
+  const { namespace, localKey } = splitCatalogKey(files, key);
+  const templates = listTemplateFiles(i18nDir).map(template =>
+    namespace !== null ? { ...template, namespace: template.code } : template
+  );
+  const changes: CellChange[] = [];
+  const targets = files.filter(file => (file.namespace ?? null) === namespace).map(openExistingFile);
+  const templateTargets = templates.filter(file => (file.namespace ?? null) === namespace).map(openExistingFile);
+  assertWritable(
+    [...targets, ...templateTargets].map((target): [LocaleTarget, LocaleEdit] => [
+      target,
+      document => document.remove(localKey)
+    ])
+  );
+
+  const writes = [
+    ...targets.map(target =>
+      writeQueue.enqueue(target, document => {
+        const before = readValue(document, localKey);
+        if (before === null || !document.remove(localKey)) return false;
+        changes.push({ key, lang: target.file.code, before, after: null });
+        return true;
+      })
+    ),
+    ...templateTargets.map(target => writeQueue.enqueue(target, document => document.remove(localKey)))
+  ];
+  updateSnapshot(i18nDir, values => {
+    delete values[key];
+  });
+  await Promise.all(writes);
+  return changes;
+}
+
+async function renameTranslationKey(
+  from: string,
+  to: string,
+  subtree: boolean,
+  i18nDir = getOrCreateI18nDir()
+): Promise<{ renames: KeyRename[]; changes: CellChange[] }> {
+  if (!i18nDir) return { renames: [], changes: [] };
+
+  const files = listLocaleFiles(i18nDir);
+  const normalize = (key: string) => {
+    const { namespace, localKey } = splitCatalogKey(files, key.trim());
+    return toCatalogKey(namespace ?? undefined, localKey);
+  };
+  const source = normalize(from);
+  const target = normalize(to);
+  if (source === target) return { renames: [], changes: [] };
+
+  const catalog = readCatalogValues(files);
+  const renames: KeyRename[] = [];
+  for (const key of catalog.keys()) {
+    if (key === source) {
+      renames.push({ from: key, to: target });
+    } else if (subtree && key.startsWith(`${source}.`)) {
+      renames.push({ from: key, to: `${target}${key.slice(source.length)}` });
     }
   }
+  if (renames.length === 0) {
+    throw new Error(`Key "${from}" was not found.`);
+  }
+
+  const changes = await moveTranslationKeys(renames, catalog, files, i18nDir);
+  return { renames, changes };
 }
 
-async function deleteTranslationKey(key: string) {
-  const i18nDir = getOrCreateI18nDir();
-  if (!i18nDir) return;
+async function applyBatchOperation(keys: string[], operation: BatchOperation, i18nDir: string) {
+  switch (operation.kind) {
+    case 'delete': {
+      const changes = await Promise.all(keys.map(key => deleteTranslationKey(key, i18nDir)));
+      recordHistory('bulkDelete', undefined, i18nDir, changes.flat());
+      await updateReviewState(i18nDir, state => {
+        keys.forEach(key => delete state[key]);
+      });
+      break;
+    }
+    case 'move': {
+      const files = listLocaleFiles(i18nDir);
+      const catalog = readCatalogValues(files);
+      const renames = keys
+        .filter(key => catalog.has(key))
+        .map(key => ({ from: key, to: joinKeyPrefix(operation.prefix, key) }))
+        .filter(rename => rename.from !== rename.to);
+      if (renames.length === 0) break;
+      const changes = await moveTranslationKeys(renames, catalog, files, i18nDir);
+      recordHistory('bulkMove', undefined, i18nDir, changes);
+      await updateReviewState(i18nDir, state => {
+        renames.forEach(rename => {
+          if (state[rename.from]) state[rename.to] = state[rename.from];
+          delete state[rename.from];
+        });
+      });
+      break;
+    }
+    case 'clear': {
+      const changes = await Promise.all(
+        keys.map(key => updateTranslationValue(operation.lang, key, '', i18nDir))
+      );
+      recordHistory('bulkClear', undefined, i18nDir, changes.flat());
+      await unmarkReviewed(i18nDir, keys.map(key => ({ key, lang: operation.lang })));
+      break;
+    }
+    case 'setValues': {
+      const changes = await Promise.all(
+        operation.values.map(item => updateTranslationValue(item.lang, item.key, item.value, i18nDir))
+      );
+      recordHistory(operation.history, undefined, i18nDir, changes.flat());
+      await unmarkReviewed(i18nDir, operation.values);
+      break;
+    }
+    case 'review': {
+      await updateReviewState(i18nDir, state => {
+        keys.forEach(key => {
+          state[key] = Array.from(new Set([...(state[key] ?? []), ...operation.langs]));
+        });
+      });
+      break;
+    }
+    default:
+      break;
+  }
+}
 
-  const files = fs.readdirSync(i18nDir).filter(file => file.endsWith('.json'));
+function joinKeyPrefix(prefix: string, key: string): string {
+  const separator = key.indexOf(':');
+  const namespace = separator > 0 ? key.slice(0, separator) : null;
+  const localKey = separator > 0 ? key.slice(separator + 1) : key;
+  const leaf = localKey.slice(localKey.lastIndexOf('.') + 1);
+  const cleanPrefix = prefix.trim().replace(/\.+$/, '');
+  const joined = cleanPrefix ? `${cleanPrefix}.${leaf}` : leaf;
+  return namespace && !cleanPrefix.includes(':') ? `${namespace}:${joined}` : joined;
+}
+
+function getReviewState(i18nDir: string): ReviewState {
+  const stored = extensionContext?.workspaceState.get<Record<string, ReviewState>>(REVIEW_STATE_KEY);
+  return stored?.[i18nDir] ?? {};
+}
+
+async function updateReviewState(i18nDir: string, update: (state: ReviewState) => void) {
+  const stored = extensionContext?.workspaceState.get<Record<string, ReviewState>>(REVIEW_STATE_KEY) ?? {};
+  const state = { ...(stored[i18nDir] ?? {}) };
+  update(state);
+  await extensionContext?.workspaceState.update(REVIEW_STATE_KEY, { ...stored, [i18nDir]: state });
+}
+
+async function unmarkReviewed(i18nDir: string, cells: Array<{ key: string; lang: string }>) {
+  const current = getReviewState(i18nDir);
+  if (!cells.some(cell => current[cell.key]?.includes(cell.lang))) return;
+  await updateReviewState(i18nDir, state => {
+    cells.forEach(cell => {
+      const langs = (state[cell.key] ?? []).filter(lang => lang !== cell.lang);
+      if (langs.length > 0) {
+        state[cell.key] = langs;
+      } else {
+        delete state[cell.key];
+      }
+    });
+  });
+}
+
+// With `skipInvalid`, files that fail to parse are left out instead of throwing.
+function readCatalogValues(files: LocaleFile[], skipInvalid = false): Map<string, Record<string, string>> {
+  const catalog = new Map<string, Record<string, string>>();
   for (const file of files) {
-    const filePath = path.join(i18nDir, file);
-    const json = readJsonFile(filePath);
-    const removed = removeNestedValue(json, key);
-    if (removed) {
-      writeJsonFile(filePath, json);
+    let document: LocaleDocument;
+    try {
+      document = readLocaleDocument(file, getLocaleOptions());
+    } catch (error) {
+      if (skipInvalid && error instanceof LocaleParseError) continue;
+      throw error;
+    }
+    const values = document.values();
+    for (const [localKey, value] of Object.entries(values)) {
+      const key = toCatalogKey(file.namespace, localKey);
+      catalog.set(key, { ...catalog.get(key), [file.code]: value });
     }
   }
+  return catalog;
 }
 
-async function addLanguageFile(langCode: string) {
-  const i18nDir = getOrCreateI18nDir();
-  if (!i18nDir) return;
+async function moveTranslationKeys(
+  renames: KeyRename[],
+  catalog: Map<string, Record<string, string>>,
+  files: LocaleFile[],
+  i18nDir: string
+): Promise<CellChange[]> {
+  const moving = new Set(renames.map(rename => rename.from));
+  const targets = new Set<string>();
+  for (const rename of renames) {
+    if ((catalog.has(rename.to) && !moving.has(rename.to)) || targets.has(rename.to)) {
+      throw new Error(`Key "${rename.to}" already exists.`);
+    }
+    targets.add(rename.to);
+  }
 
-  const filePath = path.join(i18nDir, `${langCode}.json`);
-  if (fs.existsSync(filePath)) return;
-  writeJsonFile(filePath, {});
-}
+  // Removals run before insertions so chained moves (a -> b, b -> c) don't clobber each other.
+  const edits = new Map<string, { target: LocaleTarget; removals: string[]; inserts: Array<[string, string]> }>();
+  const editFile = (code: string, namespace: string | null) => {
+    const target = openLocaleFile(i18nDir, files, code, namespace);
+    const entry = edits.get(target.file.filePath) ?? { target, removals: [], inserts: [] };
+    edits.set(target.file.filePath, entry);
+    return entry;
+  };
+
+  for (const rename of renames) {
+    const before = splitCatalogKey(files, rename.from);
+    const after = splitCatalogKey(files, rename.to);
+    for (const [code, value] of Object.entries(catalog.get(rename.from) ?? {})) {
+      editFile(code, before.namespace).removals.push(before.localKey);
+      editFile(code, after.namespace).inserts.push([after.localKey, value]);
+    }
+  }
+
+  const changes = new Map<string, CellChange>();
+  for (const rename of renames) {
+    for (const [code, value] of Object.entries(catalog.get(rename.from) ?? {})) {
+      changes.set(`${rename.from}\u0000${code}`, { key: rename.from, lang: code, before: value, after: null });
+    }
+  }
+  for (const rename of renames) {
+    for (const [code, value] of Object.entries(catalog.get(rename.from) ?? {})) {
+      const existing = changes.get(`${rename.to}\u0000${code}`);
+      changes.set(`${rename.to}\u0000${code}`, { key: rename.to, lang: code, before: existing?.before ?? null, after: value });
+    }
+  }
 
-function readJsonFile(filePath: string): Record<string, unknown> {
-  if (!fs.existsSync(filePath)) return {};
-  const raw = fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, '');
-  try {
-    const parsed = JSON.parse(raw);
-    return typeof parsed === 'object' && parsed !== null ? parsed : {};
-  } catch {
-    return {};
+  const writes = Array.from(edits.values()).map(({ target, removals, inserts }): [LocaleTarget, LocaleEdit] => [
+    target,
+    document => {
+      removals.forEach(localKey => document.remove(localKey));
+      inserts.forEach(([localKey, value]) => document.set(localKey, value));
+      return true;
+    }
+  ]);
+  for (const rename of renames) {
+    const before = splitCatalogKey(files, rename.from);
+    const after = splitCatalogKey(files, rename.to);
+    listTemplateFiles(i18nDir)
+      .filter(template => before.namespace === null || template.code === before.namespace)
+      .forEach(template => {
+        writes.push([openExistingFile(template), document => document.remove(before.localKey)]);
+      });
+    writes.push(...templateKeyEdits(i18nDir, after.namespace, after.localKey));
   }
+
+  assertWritable(writes);
+
+  updateSnapshot(i18nDir, values => {
+    const moved = renames.map(rename => [rename.to, values[rename.from]] as const);
+    renames.forEach(rename => {
+      delete values[rename.from];
+    });
+    moved.forEach(([key, langs]) => {
+      if (langs) values[key] = langs;
+    });
+  });
+  await Promise.all(writes.map(([target, edit]) => writeQueue.enqueue(target, edit)));
+  return Array.from(changes.values());
 }
 
-function writeJsonFile(filePath: string, data: Record<string, unknown>) {
-  const json = JSON.stringify(data, null, 2) + '\n';
-  fs.writeFileSync(filePath, json, 'utf8');
+async function duplicateTranslationKey(
+  from: string,
+  to: string,
+  keepOnlyLang: string | null,
+  i18nDir = getOrCreateI18nDir()
+): Promise<CellChange[]> {
+  if (!i18nDir) return [];
+
+  const files = listLocaleFiles(i18nDir);
+  const source = splitCatalogKey(files, from);
+  const target = splitCatalogKey(files, to);
+
+  const values: Record<string, string> = {};
+  for (const file of files) {
+    const namespace = file.namespace ?? null;
+    if (namespace !== source.namespace && namespace !== target.namespace) continue;
+    const document = readLocaleDocument(file, getLocaleOptions());
+    if (namespace === target.namespace && document.has(target.localKey)) {
+      throw new Error(`Key "${to}" already exists.`);
+    }
+    const value = namespace === source.namespace ? readValue(document, source.localKey) : null;
+    if (value !== null) values[file.code] = value;
+  }
+  if (Object.keys(values).length === 0) {
+    throw new Error(`Key "${from}" was not found.`);
+  }
+
+  const changes: CellChange[] = [];
+  const writes = Object.entries(values).map(([code, value]) => {
+    const copy = keepOnlyLang === null || code === keepOnlyLang ? value : '';
+    return writeQueue.enqueue(openLocaleFile(i18nDir, files, code, target.namespace), document => {
+      if (document.has(target.localKey)) return false;
+      document.set(target.localKey, copy);
+      changes.push({ key: to, lang: code, before: null, after: copy });
+      updateSnapshot(i18nDir, snapshot => {
+        snapshot[to] = { ...snapshot[to], [code]: copy };
+      });
+      return true;
+    });
+  });
+
+  await Promise.all([...writes, ...addTemplateKey(i18nDir, target.namespace, target.localKey)]);
+  return changes;
 }
 
-function flattenObject(
-  value: Record<string, unknown>,
-  prefix = '',
-  out: Record<string, string> = {}
-): Record<string, string> {
-  if (typeof value !== 'object' || value === null) return out;
-  for (const [key, entry] of Object.entries(value)) {
-    const fullKey = prefix ? `${prefix}.${key}` : key;
-    if (typeof entry === 'string') {
-      out[fullKey] = entry;
+// Rewrites only the key references the usage patterns find, never other string
+// literals. Files with unsaved changes are skipped so their edits aren't saved.
+async function rewriteKeyUsages(
+  root: string,
+  i18nDir: string,
+  renames: KeyRename[]
+): Promise<{ updated: number; skipped: string[] }> {
+  const files = listLocaleFiles(i18nDir);
+  const replacements = new Map<string, string>();
+  for (const rename of renames) {
+    replacements.set(rename.from, rename.to);
+    const before = splitCatalogKey(files, rename.from);
+    const after = splitCatalogKey(files, rename.to);
+    if (before.namespace !== null && before.namespace === after.namespace) {
+      replacements.set(before.localKey, after.localKey);
+    }
+  }
+
+  const { patterns } = compileUsagePatterns(getUsagePatterns());
+  const uris = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(root, SOURCE_FILE_GLOB),
+    `**/{${Array.from(FOLDER_SEARCH_SKIP).join(',')}}/**`
+  );
+
+  const findRenamed = (text: string) => {
+    const seen = new Set<number>();
+    return collectKeyReferences(text, patterns).filter(reference => {
+      if (reference.dynamic || !replacements.has(reference.key) || seen.has(reference.index)) return false;
+      seen.add(reference.index);
+      return true;
+    });
+  };
+
+  const edit = new vscode.WorkspaceEdit();
+  const changed: vscode.Uri[] = [];
+  const skipped: string[] = [];
+  for (const uri of uris) {
+    if (findRenamed(fs.readFileSync(uri.fsPath, 'utf8')).length === 0) continue;
+
+    const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    if (open?.isDirty) {
+      skipped.push(vscode.workspace.asRelativePath(uri));
       continue;
     }
-    if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
-      flattenObject(entry as Record<string, unknown>, fullKey, out);
+    const document = open ?? (await vscode.workspace.openTextDocument(uri));
+    for (const reference of findRenamed(document.getText())) {
+      const start = document.positionAt(reference.index);
+      const end = document.positionAt(reference.index + reference.length);
+      edit.replace(uri, new vscode.Range(start, end), replacements.get(reference.key)!);
     }
+    changed.push(uri);
   }
-  return out;
+
+  if (changed.length === 0) return { updated: 0, skipped };
+  await vscode.workspace.applyEdit(edit);
+  for (const uri of changed) {
+    const document = await vscode.workspace.openTextDocument(uri);
+    await document.save();
+  }
+  return { updated: changed.length, skipped };
 }
 
-function setNestedValue(target: Record<string, unknown>, key: string, value: string) {
-  const parts = key.split('.');
-  let current: Record<string, unknown> = target;
-  for (let i = 0; i < parts.length - 1; i++) {
-    const part = parts[i];
-    const next = current[part];
-    if (!next || typeof next !== 'object' || Array.isArray(next)) {
-      current[part] = {};
+async function scanKeyUsages(root: string, i18nDir: string): Promise<UsageScan> {
+  const { patterns, invalid } = compileUsagePatterns(getUsagePatterns());
+  invalid.forEach(source => getOutputChannel().appendLine(`[usage] ignoring invalid pattern: ${source}`));
+
+  const uris = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(root, SOURCE_FILE_GLOB),
+    `**/{${Array.from(FOLDER_SEARCH_SKIP).join(',')}}/**`
+  );
+  const sources = uris.flatMap(uri => {
+    try {
+      const text = fs.readFileSync(uri.fsPath, 'utf8');
+      return [{ filePath: uri.fsPath, text, references: collectKeyReferences(text, patterns) }];
+    } catch {
+      return [];
+    }
+  });
+  const index = buildUsageIndex(sources.flatMap(source => source.references));
+
+  const files = listLocaleFiles(i18nDir);
+  const catalogKeys = Array.from(readCatalogValues(files, true).keys());
+  const localKeys = catalogKeys.map(key => splitCatalogKey(files, key).localKey);
+  const unusedKeys = catalogKeys.filter(
+    (key, position) => !isKeyReferenced(index, key) && !isKeyReferenced(index, localKeys[position])
+  );
+
+  const missing = new Map<string, MissingKey>();
+  for (const source of sources) {
+    for (const reference of findMissingReferences(source.references, [...catalogKeys, ...localKeys])) {
+      const existing = missing.get(reference.key);
+      if (existing) {
+        existing.references += 1;
+        existing.defaultValue = existing.defaultValue ?? reference.defaultValue;
+        continue;
+      }
+      missing.set(reference.key, describeMissingKey(root, source.filePath, source.text, reference));
     }
-    current = current[part] as Record<string, unknown>;
   }
-  current[parts[parts.length - 1]] = value;
+
+  return {
+    catalog: i18nDir,
+    unusedKeys: unusedKeys.sort(),
+    missingKeys: Array.from(missing.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    scannedFiles: uris.length,
+    dynamicPrefixes: index.prefixes.sort(),
+    scannedAt: new Date().toISOString()
+  };
 }
 
-function getNestedValue(target: Record<string, unknown>, key: string): unknown {
-  const parts = key.split('.');
-  let current: unknown = target;
-  for (const part of parts) {
-    if (!current || typeof current !== 'object') return undefined;
-    const next = (current as Record<string, unknown>)[part];
-    if (next === undefined) return undefined;
-    current = next;
+function describeMissingKey(root: string, filePath: string, text: string, reference: KeyReference): MissingKey {
+  const before = text.slice(0, reference.index);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    key: reference.key,
+    defaultValue: reference.defaultValue,
+    filePath,
+    file: path.relative(root, filePath).split(path.sep).join('/'),
+    line: before.split('\n').length,
+    column: reference.index - lineStart + 1,
+    references: 1
+  };
+}
+
+async function openKeyInPanel(key: string, i18nDir?: string | null) {
+  // Hovers resolve keys in the catalog of their own folder, so the panel switches to it.
+  if (i18nDir) {
+    const root = getWorkspaceRoot();
+    const activeDir = root ? pickActiveCatalog(findI18nDirs(root)) : null;
+    if (activeDir !== i18nDir) {
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(i18nDir));
+      if (folder) await extensionContext?.workspaceState.update(ACTIVE_PROJECT_STATE_KEY, folder.uri.toString());
+      await extensionContext?.workspaceState.update(ACTIVE_CATALOG_STATE_KEY, i18nDir);
+      invalidateHintCatalog();
+      await refreshOpenPanels();
+    }
   }
-  return current;
+
+  const [panel] = openPanels;
+  if (!panel) {
+    pendingOpenKey = key;
+    await vscode.commands.executeCommand(COMMAND_ID);
+    return;
+  }
+  panel.reveal();
+  panel.webview.postMessage({ type: 'openKey', key });
 }
 
-function removeNestedValue(target: Record<string, unknown>, key: string): boolean {
-  const parts = key.split('.');
-  if (parts.length === 0) return false;
+// Reads the catalog of the document's workspace folder without touching the panel
+// state (diagnostics, tracked catalog), and keeps it until a locale file changes.
+function getHintCatalog(uri: vscode.Uri): HintCatalog {
+  const folder = vscode.workspace.getWorkspaceFolder(uri) ?? getActiveWorkspaceFolder();
+  const root = folder?.uri.fsPath ?? '';
+  const cached = hintCatalogs.get(root);
+  if (cached) return cached.catalog;
+
+  const catalog = readHintCatalog(root);
+  let watcher: vscode.FileSystemWatcher | null = null;
+  if (catalog.i18nDir) {
+    watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(catalog.i18nDir, '**/*'));
+    const invalidate = () => {
+      watcher?.dispose();
+      hintCatalogs.delete(root);
+      hintsChanged.fire();
+    };
+    watcher.onDidChange(invalidate);
+    watcher.onDidCreate(invalidate);
+    watcher.onDidDelete(invalidate);
+  }
+  hintCatalogs.set(root, { catalog, watcher });
+  return catalog;
+}
 
-  const removeBySegments = (current: Record<string, unknown>, startIndex: number): boolean => {
-    let removed = false;
-    for (let endIndex = startIndex; endIndex < parts.length; endIndex += 1) {
-      const joinedKey = parts.slice(startIndex, endIndex + 1).join('.');
-      if (!Object.prototype.hasOwnProperty.call(current, joinedKey)) {
-        continue;
+function readHintCatalog(root: string): HintCatalog {
+  const i18nDir = root ? pickActiveCatalog(findI18nDirs(root)) : null;
+  const files = i18nDir && fs.existsSync(i18nDir) ? listLocaleFiles(i18nDir) : [];
+  const languages = Array.from(new Set(files.map(file => file.code))).sort(compareLanguageCodes);
+  const sourcePreference = getSourceLanguagePreference();
+  const namespaces = getNamespaces(files);
+  const values = Object.fromEntries(readCatalogValues(files, true));
+  return {
+    i18nDir,
+    languages,
+    sourceLangCode: languages.includes(sourcePreference) ? sourcePreference : languages[0] ?? sourcePreference,
+    defaultNamespace: namespaces.length > 0 ? getDefaultNamespace(namespaces) : null,
+    keys: Object.keys(values).sort((a, b) => a.localeCompare(b)),
+    values
+  };
+}
+
+function invalidateHintCatalog() {
+  hintCatalogs.forEach(entry => entry.watcher?.dispose());
+  hintCatalogs.clear();
+  hintsChanged.fire();
+}
+
+function resolveHintKey(catalog: HintCatalog, key: string): string | null {
+  const candidates = catalog.defaultNamespace && !key.includes(':')
+    ? [key, `${catalog.defaultNamespace}:${key}`]
+    : [key];
+  for (const candidate of candidates) {
+    if (catalog.values[candidate]) return candidate;
+    if (catalog.values[`${candidate}_other`]) return `${candidate}_other`;
+  }
+  return null;
+}
+
+function findKeyReferences(document: vscode.TextDocument): KeyReference[] {
+  const { patterns } = compileUsagePatterns(getUsagePatterns());
+  return collectKeyReferences(document.getText(), patterns).filter(reference => !reference.dynamic);
+}
+
+function truncateHint(value: string): string {
+  const flat = value.replace(/\s+/g, ' ').trim();
+  return flat.length > HINT_MAX_LENGTH ? `${flat.slice(0, HINT_MAX_LENGTH - 1)}…` : flat;
+}
+
+function describeKey(catalog: HintCatalog, key: string): vscode.MarkdownString {
+  const markdown = new vscode.MarkdownString();
+  markdown.isTrusted = { enabledCommands: [OPEN_KEY_COMMAND_ID] };
+  markdown.appendMarkdown('**Kraken i18n** ');
+  markdown.appendText(key);
+  markdown.appendMarkdown('\n\n');
+  for (const code of catalog.languages) {
+    const value = catalog.values[key]?.[code] ?? '';
+    markdown.appendMarkdown(`- **${code}**: `);
+    if (value.trim()) {
+      markdown.appendText(value.replace(/\s+/g, ' '));
+    } else {
+      markdown.appendMarkdown('⚠ _missing_');
+    }
+    markdown.appendMarkdown('\n');
+  }
+  const args = encodeURIComponent(JSON.stringify([key, catalog.i18nDir]));
+  markdown.appendMarkdown(`\n[Open in Kraken i18n](command:${OPEN_KEY_COMMAND_ID}?${args})`);
+  return markdown;
+}
+
+function provideKeyInlayHints(document: vscode.TextDocument, range: vscode.Range): vscode.InlayHint[] {
+  if (!getInlineHintsEnabled()) return [];
+  const catalog = getHintCatalog(document.uri);
+  if (catalog.languages.length === 0) return [];
+
+  const start = document.offsetAt(range.start);
+  const end = document.offsetAt(range.end);
+  return findKeyReferences(document)
+    .filter(reference => reference.index >= start && reference.index <= end)
+    .map(reference => {
+      const position = document.positionAt(reference.index + reference.length + 1);
+      const key = resolveHintKey(catalog, reference.key);
+      if (!key) {
+        const hint = new vscode.InlayHint(position, '⚠ not in catalog');
+        hint.paddingLeft = true;
+        return hint;
       }
 
-      if (endIndex === parts.length - 1) {
-        delete current[joinedKey];
-        removed = true;
-        continue;
+      const source = catalog.values[key][catalog.sourceLangCode] ?? '';
+      const missing = catalog.languages.filter(code => !catalog.values[key][code]?.trim());
+      const label = [
+        source.trim() ? `"${truncateHint(source)}"` : '',
+        missing.length > 0 ? `⚠ ${missing.join(', ')}` : ''
+      ].filter(Boolean).join(' · ');
+      const hint = new vscode.InlayHint(position, label);
+      hint.paddingLeft = true;
+      hint.tooltip = describeKey(catalog, key);
+      return hint;
+    });
+}
+
+function provideKeyHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | null {
+  if (!getInlineHintsEnabled()) return null;
+  const offset = document.offsetAt(position);
+  const reference = findKeyReferences(document).find(
+    candidate => offset >= candidate.index && offset <= candidate.index + candidate.length
+  );
+  if (!reference) return null;
+
+  const catalog = getHintCatalog(document.uri);
+  const key = resolveHintKey(catalog, reference.key);
+  if (!key) return null;
+  return new vscode.Hover(
+    describeKey(catalog, key),
+    new vscode.Range(
+      document.positionAt(reference.index),
+      document.positionAt(reference.index + reference.length)
+    )
+  );
+}
+
+function findKeyPrefixAt(document: vscode.TextDocument, position: vscode.Position): string | null {
+  const line = document.lineAt(position.line).text.slice(0, position.character);
+  const quoteIndex = Math.max(line.lastIndexOf("'"), line.lastIndexOf('"'), line.lastIndexOf('`'));
+  if (quoteIndex === -1) return null;
+
+  // Close the string with a probe key and check that one of the call patterns captures it.
+  const typed = line.slice(quoteIndex + 1);
+  const probe = `${line}${COMPLETION_PROBE}${line[quoteIndex]}`;
+  const { patterns } = compileUsagePatterns(getUsagePatterns());
+  const inCall = collectKeyReferences(probe, patterns).some(
+    reference => reference.index === quoteIndex + 1 && reference.key === `${typed}${COMPLETION_PROBE}`
+  );
+  return inCall ? typed : null;
+}
+
+function provideKeyCompletions(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): vscode.CompletionItem[] {
+  const typed = findKeyPrefixAt(document, position);
+  if (typed === null) return [];
+  const catalog = getHintCatalog(document.uri);
+  if (catalog.keys.length === 0) return [];
+
+  const base = typed.slice(0, Math.max(typed.lastIndexOf('.'), typed.lastIndexOf(':')) + 1);
+  const range = new vscode.Range(position.translate(0, base.length - typed.length), position);
+  const localPrefix = catalog.defaultNamespace ? `${catalog.defaultNamespace}:` : null;
+  const leaves = new Map<string, string>();
+  const folders = new Map<string, number>();
+
+  for (const key of catalog.keys) {
+    const candidates = localPrefix && key.startsWith(localPrefix) ? [key, key.slice(localPrefix.length)] : [key];
+    for (const candidate of candidates) {
+      if (!candidate.startsWith(base)) continue;
+      const rest = candidate.slice(base.length);
+      const separator = rest.search(/[.:]/);
+      if (separator === -1) {
+        leaves.set(rest, key);
+      } else {
+        const segment = rest.slice(0, separator + 1);
+        folders.set(segment, (folders.get(segment) ?? 0) + 1);
       }
+    }
+  }
 
-      const next = current[joinedKey];
-      if (!next || typeof next !== 'object' || Array.isArray(next)) {
+  const items: vscode.CompletionItem[] = [];
+  for (const [segment, count] of folders) {
+    const item = new vscode.CompletionItem(segment, vscode.CompletionItemKind.Folder);
+    item.range = range;
+    item.detail = `${count} key(s)`;
+    item.command = { title: 'Suggest', command: 'editor.action.triggerSuggest' };
+    items.push(item);
+  }
+  for (const [segment, key] of leaves) {
+    const item = new vscode.CompletionItem(segment, vscode.CompletionItemKind.Value);
+    item.range = range;
+    item.detail = truncateHint(catalog.values[key]?.[catalog.sourceLangCode] ?? '');
+    item.documentation = describeKey(catalog, key);
+    items.push(item);
+  }
+  return items;
+}
+
+function findExtractTarget(document: vscode.TextDocument, selection: vscode.Range): ExtractTarget | null {
+  if (!selection.isSingleLine) return null;
+  const line = document.lineAt(selection.start.line).text;
+  const { patterns } = compileUsagePatterns(getUsagePatterns());
+  const references = collectKeyReferences(line, patterns);
+
+  for (const match of line.matchAll(STRING_LITERAL)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (selection.start.character < start || selection.end.character > end) continue;
+    const before = line.slice(0, start);
+    const isKey = references.some(reference => reference.index === start + 1);
+    const isModule = /^\s*(import|export)\b|\brequire\(\s*$|\bimport\(\s*$/.test(before);
+    if (isKey || isModule || !match[2].trim() || (match[1] === '`' && match[2].includes('${'))) return null;
+    return {
+      range: new vscode.Range(selection.start.line, start, selection.start.line, end),
+      text: unescapeString(match[2]),
+      jsx: JSX_LANGUAGES.includes(document.languageId) && JSX_ATTRIBUTE.test(before)
+    };
+  }
+
+  // JSX text between tags: only an explicit selection without markup or code.
+  if (selection.isEmpty || !JSX_LANGUAGES.includes(document.languageId)) return null;
+  const selected = document.getText(selection);
+  const text = selected.trim();
+  if (!text || /[<>{}'"`;=]/.test(text)) return null;
+  const leading = selected.length - selected.trimStart().length;
+  const start = selection.start.translate(0, leading);
+  return {
+    range: new vscode.Range(start, start.translate(0, text.length)),
+    text,
+    jsx: true
+  };
+}
+
+function provideExtractActions(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction[] {
+  const target = findExtractTarget(document, range);
+  if (!target) return [];
+  const action = new vscode.CodeAction('Extract string to translation key', vscode.CodeActionKind.RefactorExtract);
+  action.command = {
+    title: 'Extract string to translation key',
+    command: EXTRACT_STRING_COMMAND_ID,
+    arguments: [document.uri, target]
+  };
+  return [action];
+}
+
+async function extractStringToKey(uri: vscode.Uri, target: ExtractTarget) {
+  const catalog = getHintCatalog(uri);
+  const i18nDir = catalog.i18nDir;
+  if (!i18nDir || catalog.languages.length === 0) {
+    vscode.window.showWarningMessage('Kraken i18n: no translation catalog found to add the key to.');
+    return;
+  }
+
+  // The target range belongs to this version of the document; edits made while the prompt is open move it.
+  const document = await vscode.workspace.openTextDocument(uri);
+  const version = document.version;
+  const isStale = () => document.isClosed || document.version !== version;
+
+  const root = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath ?? getWorkspaceRoot() ?? '';
+  const input = await vscode.window.showInputBox({
+    prompt: `Translation key for "${truncateHint(target.text)}"`,
+    value: suggestKeyName(path.relative(root, uri.fsPath), target.text),
+    validateInput: value => {
+      if (!value.trim()) return 'Enter a key.';
+      return resolveHintKey(catalog, value.trim()) ? `Key "${value.trim()}" already exists.` : null;
+    }
+  });
+  const key = input?.trim();
+  if (!key || resolveHintKey(catalog, key)) return;
+  if (isStale()) {
+    vscode.window.showWarningMessage('Kraken i18n: the file changed while the key was being entered. Run the extraction again.');
+    return;
+  }
+
+  const changes = await addTranslationKey(key, catalog.sourceLangCode, target.text, i18nDir);
+  recordHistory('addKey', undefined, i18nDir, changes);
+  if (isStale()) {
+    await refreshOpenPanels();
+    vscode.window.showWarningMessage(`Kraken i18n: added "${key}", but the file changed, so the string was not replaced.`);
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(uri, target.range, getExtractTemplate(target.jsx).split('{key}').join(key));
+  await vscode.workspace.applyEdit(edit);
+  await refreshOpenPanels();
+
+  if (getExtractAutoTranslate() && getOpenAiApiKey()) {
+    queueTranslation(key);
+  }
+}
+
+function queueTranslation(key: string) {
+  const [panel] = openPanels;
+  if (panel) {
+    panel.webview.postMessage({ type: 'translateKeys', keys: [key] });
+    return;
+  }
+  pendingTranslations.push(key);
+  vscode.window
+    .showInformationMessage(`Kraken i18n: AI translation of "${key}" runs when the panel is open.`, 'Open')
+    .then(choice => {
+      if (choice === 'Open') vscode.commands.executeCommand(COMMAND_ID);
+    });
+}
+
+async function addLanguageFile(langCode: string, i18nDir = getOrCreateI18nDir()) {
+  if (!i18nDir) return;
+
+  const files = listLocaleFiles(i18nDir);
+  if (files.some(file => file.code === langCode)) return;
+
+  const namespaces = getNamespaces(files);
+  const targets = namespaces.length > 0 ? namespaces : [null];
+  await Promise.all(
+    targets.map(namespace =>
+      writeQueue.enqueue(openLocaleFile(i18nDir, files, langCode, namespace), () => true)
+    )
+  );
+}
+
+function collectSharedKeys(catalogDirs: string[], sourceLang: string): SharedKey[] {
+  if (catalogDirs.length < 2) return [];
+
+  const sources = new Map<string, Record<string, string>>();
+  for (const dir of catalogDirs) {
+    for (const [key, value] of Object.entries(readSourceValues(dir, sourceLang))) {
+      sources.set(key, { ...sources.get(key), [dir]: value });
+    }
+  }
+
+  return Array.from(sources.entries())
+    .filter(([, byCatalog]) => Object.keys(byCatalog).length > 1)
+    .map(([key, byCatalog]) => ({ key, sources: byCatalog }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function readSourceValues(i18nDir: string, sourceLang: string): Record<string, string> {
+  const files = listLocaleFiles(i18nDir);
+  const codes = Array.from(new Set(files.map(file => file.code))).sort(compareLanguageCodes);
+  const code = codes.includes(sourceLang) ? sourceLang : codes[0];
+
+  const values: Record<string, string> = {};
+  for (const file of files) {
+    if (file.code !== code) continue;
+    let document: LocaleDocument;
+    try {
+      document = readLocaleDocument(file, getLocaleOptions());
+    } catch (error) {
+      if (error instanceof LocaleParseError) continue;
+      throw error;
+    }
+    for (const [key, value] of Object.entries(document.values())) {
+      values[toCatalogKey(file.namespace, key)] = value;
+    }
+  }
+  return values;
+}
+
+function getNamespaces(files: LocaleFile[]): string[] {
+  const namespaces = new Set<string>();
+  files.forEach(file => {
+    if (file.namespace) namespaces.add(file.namespace);
+  });
+  return Array.from(namespaces).sort((a, b) => a.localeCompare(b));
+}
+
+function getDefaultNamespace(namespaces: string[]): string {
+  const configured = getDefaultNamespacePreference();
+  return namespaces.includes(configured) ? configured : namespaces[0] ?? configured;
+}
+
+function toCatalogKey(namespace: string | undefined, key: string): string {
+  return namespace ? `${namespace}:${key}` : key;
+}
+
+function splitCatalogKey(
+  files: LocaleFile[],
+  key: string
+): { namespace: string | null; localKey: string } {
+  const namespaces = getNamespaces(files);
+  if (namespaces.length === 0) return { namespace: null, localKey: key };
+
+  const separator = key.indexOf(':');
+  if (separator > 0) {
+    return { namespace: key.slice(0, separator), localKey: key.slice(separator + 1) };
+  }
+  return { namespace: getDefaultNamespace(namespaces), localKey: key };
+}
+
+function openExistingFile(file: LocaleFile): LocaleTarget {
+  return {
+    file,
+    load: () => {
+      const options = getLocaleOptions();
+      return applyLocaleTemplates(file, readLocaleDocument(file, options), options);
+    }
+  };
+}
+
+function openLocaleFile(
+  i18nDir: string,
+  files: LocaleFile[],
+  langCode: string,
+  namespace: string | null
+): LocaleTarget {
+  const inNamespace = (file: LocaleFile) => (file.namespace ?? null) === namespace;
+  const existing = files.find(file => file.code === langCode && inNamespace(file));
+  if (existing) {
+    return openExistingFile(existing);
+  }
+
+  const sourceLang = getSourceLanguagePreference();
+  const template =
+    files.find(file => file.code === sourceLang && inNamespace(file)) ??
+    files.find(inNamespace) ??
+    files.find(file => file.code === sourceLang) ??
+    files[0];
+  const format = template?.format ?? DEFAULT_FORMAT;
+  const fileName = `${namespace ?? langCode}${format.extensions[0]}`;
+  const file: LocaleFile = {
+    code: langCode,
+    namespace: namespace ?? undefined,
+    filePath: namespace
+      ? path.join(i18nDir, langCode, fileName)
+      : path.join(i18nDir, fileName),
+    format
+  };
+  const load = () => {
+    const options = getLocaleOptions();
+    if (fs.existsSync(file.filePath)) return applyLocaleTemplates(file, readLocaleDocument(file, options), options);
+    const document = template
+      ? readLocaleDocument(template, options).createSibling(langCode)
+      : format.create(langCode, options);
+    return applyLocaleTemplates(file, document, options);
+  };
+  return { file, load };
+}
+
+async function exportXliff(keyFilter?: string[]) {
+  const payload = await readI18nData();
+  if (payload.status !== 'ok') {
+    vscode.window.showWarningMessage(`Kraken i18n: ${payload.error ?? 'no translations to export.'}`);
+    return;
+  }
+
+  const targets = payload.languages.filter(lang => lang.code !== payload.sourceLangCode);
+  if (targets.length === 0) {
+    vscode.window.showWarningMessage('Kraken i18n: add a target language before exporting XLIFF.');
+    return;
+  }
+
+  const version = await vscode.window.showQuickPick(['1.2', '2.0'], {
+    placeHolder: 'XLIFF version'
+  });
+  if (!version) return;
+
+  const picked = await vscode.window.showQuickPick(
+    targets.map(lang => ({ label: lang.code, description: lang.name, picked: true })),
+    { canPickMany: true, placeHolder: 'Target languages to export' }
+  );
+  if (!picked || picked.length === 0) return;
+
+  const root = getWorkspaceRoot();
+  const folder = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: 'Export XLIFF here',
+    defaultUri: root ? vscode.Uri.file(root) : undefined
+  });
+  if (!folder?.[0]) return;
+
+  const existing = picked
+    .map(target => `${target.label}.xlf`)
+    .filter(name => fs.existsSync(path.join(folder[0].fsPath, name)));
+  if (existing.length > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `Kraken i18n: ${existing.join(', ')} already exist in ${folder[0].fsPath}. Overwrite?`,
+      { modal: true },
+      'Overwrite'
+    );
+    if (choice !== 'Overwrite') return;
+  }
+
+  for (const target of picked) {
+    const units = payload.keys
+      .filter(key => !keyFilter || keyFilter.includes(key.id))
+      .map(key => {
+        const comments = payload.comments[key.id] ?? {};
+        const value = payload.values[key.id]?.[target.label] ?? '';
+        return {
+          key: key.key,
+          source: payload.values[key.id]?.[payload.sourceLangCode] ?? '',
+          target: value,
+          exportedTarget: value,
+          notes: [comments[payload.sourceLangCode], comments[target.label]].filter(
+            (note): note is string => Boolean(note)
+          )
+        };
+      })
+      .filter(unit => unit.source.trim().length > 0);
+
+    const xml = buildXliff({
+      version: version as XliffVersion,
+      sourceLanguage: payload.sourceLangCode,
+      targetLanguage: target.label,
+      units
+    });
+    fs.writeFileSync(path.join(folder[0].fsPath, `${target.label}.xlf`), xml, 'utf8');
+  }
+
+  vscode.window.showInformationMessage(
+    `Kraken i18n: exported ${picked.length} XLIFF file(s) to ${folder[0].fsPath}.`
+  );
+}
+
+type XliffConflict = {
+  file: string;
+  lang: string;
+  key: string;
+  current: string;
+  incoming: string;
+  reason: 'valueChanged' | 'sourceChanged';
+};
+
+async function importXliff() {
+  const uris = await vscode.window.showOpenDialog({
+    canSelectMany: true,
+    openLabel: 'Import XLIFF',
+    filters: { XLIFF: ['xlf', 'xliff'] }
+  });
+  if (!uris || uris.length === 0) return;
+
+  const payload = await readI18nData();
+  const i18nDir = getOrCreateI18nDir();
+  if (payload.status !== 'ok' || !i18nDir) {
+    vscode.window.showWarningMessage(`Kraken i18n: ${payload.error ?? 'no translations loaded.'}`);
+    return;
+  }
+
+  const output = getOutputChannel();
+  const conflicts: XliffConflict[] = [];
+  const accepted: Array<{ key: string; lang: string; value: string }> = [];
+  let unknownKeys = 0;
+
+  output.appendLine(`[XLIFF import] ${new Date().toISOString()}`);
+
+  for (const uri of uris) {
+    const fileName = path.basename(uri.fsPath);
+    let document;
+    try {
+      document = parseXliff(fs.readFileSync(uri.fsPath, 'utf8'));
+    } catch (error) {
+      output.appendLine(`  ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const lang = document.targetLanguage;
+    if (!payload.languages.some(language => language.code === lang)) {
+      output.appendLine(`  ${fileName}: unknown target language "${lang}", skipped.`);
+      continue;
+    }
+
+    for (const unit of document.units) {
+      if (!unit.target) continue;
+      const current = payload.values[unit.key];
+      if (!current) {
+        unknownKeys += 1;
+        output.appendLine(`  ${fileName}: key "${unit.key}" no longer exists, skipped.`);
         continue;
       }
 
-      const removedChild = removeBySegments(next as Record<string, unknown>, endIndex + 1);
-      if (removedChild) {
-        removed = true;
-        if (Object.keys(next as Record<string, unknown>).length === 0) {
-          delete current[joinedKey];
-        }
+      const existing = current[lang] ?? '';
+      if (existing === unit.target) continue;
+
+      const sourceChanged = unit.source !== (current[payload.sourceLangCode] ?? '');
+      const valueChanged = existing !== unit.exportedTarget;
+      if (sourceChanged || valueChanged) {
+        conflicts.push({
+          file: fileName,
+          lang,
+          key: unit.key,
+          current: existing,
+          incoming: unit.target,
+          reason: sourceChanged ? 'sourceChanged' : 'valueChanged'
+        });
+        continue;
       }
+
+      accepted.push({ key: unit.key, lang, value: unit.target });
     }
+  }
+  await importXliffValues(accepted, i18nDir);
+
+  for (const conflict of conflicts) {
+    const reason = conflict.reason === 'sourceChanged'
+      ? 'source text changed since export'
+      : 'value changed since export';
+    output.appendLine(`  ${conflict.file}: [${conflict.lang}] ${conflict.key} (${reason})`);
+    output.appendLine(`    current:  ${JSON.stringify(conflict.current)}`);
+    output.appendLine(`    incoming: ${JSON.stringify(conflict.incoming)}`);
+  }
 
-    return removed;
-  };
+  const summary = `Kraken i18n: imported ${accepted.length} translation(s)` +
+    (unknownKeys > 0 ? `, ${unknownKeys} unknown key(s) skipped` : '');
+
+  if (conflicts.length === 0) {
+    vscode.window.showInformationMessage(`${summary}.`);
+  } else {
+    const choice = await vscode.window.showWarningMessage(
+      `${summary}. ${conflicts.length} conflict(s) were not applied.`,
+      'Overwrite Conflicts',
+      'Show Details'
+    );
+    if (choice === 'Overwrite Conflicts') {
+      await importXliffValues(
+        conflicts.map(conflict => ({ key: conflict.key, lang: conflict.lang, value: conflict.incoming })),
+        i18nDir
+      );
+      output.appendLine(`  Overwrote ${conflicts.length} conflict(s).`);
+    } else if (choice === 'Show Details') {
+      output.show(true);
+    }
+  }
+
+  await refreshOpenPanels();
+}
 
-  return removeBySegments(target, 0);
+// One batch per import, so each file is written once and the import is one undo step.
+async function importXliffValues(values: Array<{ key: string; lang: string; value: string }>, i18nDir: string) {
+  if (values.length === 0) return;
+  const keys = Array.from(new Set(values.map(item => item.key)));
+  await applyBatchOperation(keys, { kind: 'setValues', values, history: 'importXliff' }, i18nDir);
 }
 
 function getLanguageInfo(code: string): LanguageInfo {
@@ -0,0 +1,12 @@
+export class LocaleParseError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(message);
+    this.name = 'LocaleParseError';
+  }
+}
+
+export function positionAt(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, Math.max(0, Math.min(offset, text.length)));
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].replace(/\r$/, '').length + 1 };
+}
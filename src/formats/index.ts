@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { jsonFormat } from './json';
+import { poFormat } from './po';
+import { yamlFormat } from './yaml';
+import { LocaleParseError } from './errors';
+import { LocaleDocument, LocaleFile, LocaleFormat, LocaleOptions } from './types';
+
+export type {
+  JsonParseMode,
+  KeyLayout,
+  LocaleDocument,
+  LocaleFile,
+  LocaleFormat,
+  LocaleOptions
+} from './types';
+export { LocaleParseError };
+
+const FORMATS: LocaleFormat[] = [jsonFormat, yamlFormat, poFormat];
+
+export const DEFAULT_FORMAT = jsonFormat;
+
+export function getFormatForFile(filePath: string): LocaleFormat | null {
+  const extension = path.extname(filePath).toLowerCase();
+  return FORMATS.find(format => format.extensions.includes(extension)) ?? null;
+}
+
+export function listLocaleFiles(dir: string): LocaleFile[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files = collectFiles(dir, entries, name => ({ code: name }));
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+    const langDir = path.join(dir, entry.name);
+    let nested: fs.Dirent[];
+    try {
+      nested = fs.readdirSync(langDir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    files.push(...collectFiles(langDir, nested, name => ({ code: entry.name, namespace: name })));
+  }
+
+  return files;
+}
+
+function collectFiles(
+  dir: string,
+  entries: fs.Dirent[],
+  identify: (name: string) => { code: string; namespace?: string }
+): LocaleFile[] {
+  const byName = new Map<string, LocaleFile>();
+  for (const format of FORMATS) {
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const extension = path.extname(entry.name);
+      if (!format.extensions.includes(extension.toLowerCase())) continue;
+      const name = path.basename(entry.name, extension);
+      if (byName.has(name)) continue;
+      byName.set(name, { ...identify(name), filePath: path.join(dir, entry.name), format });
+    }
+  }
+  return Array.from(byName.values());
+}
+
+export function listTemplateFiles(dir: string): LocaleFile[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  const templates: LocaleFile[] = [];
+  for (const entry of entries) {
+    const extension = path.extname(entry);
+    const format = FORMATS.find(candidate =>
+      candidate.templateExtensions?.includes(extension.toLowerCase())
+    );
+    if (!format) continue;
+    templates.push({ code: path.basename(entry, extension), filePath: path.join(dir, entry), format });
+  }
+  return templates;
+}
+
+export function readLocaleDocument(file: LocaleFile, options: LocaleOptions): LocaleDocument {
+  if (!fs.existsSync(file.filePath)) return file.format.create(file.code, options);
+  const raw = fs.readFileSync(file.filePath, 'utf8');
+  return file.format.parse(raw, file.code, options);
+}
+
+// Hands a document the templates next to its file (the one named after its namespace,
+// or all of them) so it can create entries only a template describes.
+export function applyLocaleTemplates(
+  file: LocaleFile,
+  document: LocaleDocument,
+  options: LocaleOptions
+): LocaleDocument {
+  if (!document.useTemplate) return document;
+  const dir = file.namespace === undefined ? path.dirname(file.filePath) : path.dirname(path.dirname(file.filePath));
+  for (const template of listTemplateFiles(dir)) {
+    if (template.filePath === file.filePath || template.format !== file.format) continue;
+    if (file.namespace !== undefined && template.code !== file.namespace) continue;
+    try {
+      document.useTemplate(readLocaleDocument(template, options));
+    } catch (error) {
+      // A broken template is reported with the other file errors; it just can't help here.
+      if (!(error instanceof LocaleParseError)) throw error;
+    }
+  }
+  return document;
+}
+
+export function writeLocaleDocument(file: LocaleFile, document: LocaleDocument) {
+  const dir = path.dirname(file.filePath);
+  fs.mkdirSync(dir, { recursive: true });
+
+  // Write next to the target and rename over it so a crash never leaves a truncated file.
+  const tempPath = path.join(dir, `.${path.basename(file.filePath)}.${process.pid}.${Date.now()}.tmp`);
+  try {
+    fs.writeFileSync(tempPath, document.serialize(), 'utf8');
+    fs.renameSync(tempPath, file.filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
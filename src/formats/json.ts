@@ -0,0 +1,228 @@
+import {
+  flattenObject,
+  getNestedValue,
+  removeNestedValue,
+  resolveKeyPath,
+  setNestedValue
+} from './nested';
+import { LocaleParseError, positionAt } from './errors';
+import { JsonParseMode, KeyLayout, LocaleDocument, LocaleFormat } from './types';
+
+type JsonLayout = 'nested' | 'flat' | 'mixed';
+
+type JsonStyle = {
+  indent: string;
+  eol: string;
+  bom: boolean;
+  finalNewline: boolean;
+};
+
+const DEFAULT_STYLE: JsonStyle = {
+  indent: '  ',
+  eol: '\n',
+  bom: false,
+  finalNewline: true
+};
+
+export const jsonFormat: LocaleFormat = {
+  id: 'json',
+  extensions: ['.json'],
+  parse: (raw, _langCode, options) => {
+    const data = parseJsonObject(raw, options.jsonParseMode);
+    return createJsonDocument(data, detectJsonStyle(raw), detectLayout(data), options.keyLayout);
+  },
+  create: (_langCode, options) => {
+    const layout = options.keyLayout === 'flat' ? 'flat' : 'nested';
+    return createJsonDocument({}, DEFAULT_STYLE, layout, options.keyLayout);
+  }
+};
+
+function parseJsonObject(raw: string, mode: JsonParseMode): Record<string, unknown> {
+  const text = raw.replace(/^\uFEFF/, '');
+  if (!text.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(mode === 'tolerant' ? stripJsonExtensions(text) : text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = message.match(/at position (\d+)/);
+    const { line, column } = positionAt(text, position ? Number(position[1]) : text.length);
+    throw new LocaleParseError(message.replace(/\s*in JSON at position \d+.*$/, ''), line, column);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new LocaleParseError('Expected an object at the top level', 1, 1);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// Blanks out comments and trailing commas (JSONC / JSON5 style) without moving any offsets,
+// so parse errors still point at the right line and column.
+function stripJsonExtensions(text: string): string {
+  const chars = text.split('');
+  let inString = false;
+
+  for (let index = 0; index < chars.length; index += 1) {
+    const char = chars[index];
+    if (inString) {
+      if (char === '\\') index += 1;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '/' && chars[index + 1] === '/') {
+      while (index < chars.length && chars[index] !== '\n') {
+        if (chars[index] !== '\r') chars[index] = ' ';
+        index += 1;
+      }
+    } else if (char === '/' && chars[index + 1] === '*') {
+      const end = text.indexOf('*/', index + 2);
+      const stop = end === -1 ? chars.length : end + 2;
+      for (; index < stop; index += 1) {
+        if (chars[index] !== '\n' && chars[index] !== '\r') chars[index] = ' ';
+      }
+      index -= 1;
+    }
+  }
+
+  const cleaned = chars.join('');
+  inString = false;
+  for (let index = 0; index < chars.length; index += 1) {
+    const char = cleaned[index];
+    if (inString) {
+      if (char === '\\') index += 1;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      let next = index + 1;
+      while (next < cleaned.length && /\s/.test(cleaned[next])) next += 1;
+      if (cleaned[next] === '}' || cleaned[next] === ']') chars[index] = ' ';
+    }
+  }
+  return chars.join('');
+}
+
+function detectJsonStyle(raw: string): JsonStyle {
+  const bom = raw.startsWith('\uFEFF');
+  const text = bom ? raw.slice(1) : raw;
+  if (!text.trim()) return { ...DEFAULT_STYLE, bom };
+
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const finalNewline = /\r?\n$/.test(text);
+  const indentMatch = text.match(/^([ \t]+)\S/m);
+  let indent = indentMatch ? indentMatch[1] : DEFAULT_STYLE.indent;
+  if (!indentMatch && !/\r?\n\s*\S/.test(text.trim()) && /[^{}\s]/.test(text)) {
+    indent = '';
+  }
+
+  return { indent, eol, bom, finalNewline };
+}
+
+function detectLayout(data: Record<string, unknown>): JsonLayout {
+  let hasDottedKeys = false;
+  let hasObjects = false;
+
+  const visit = (current: Record<string, unknown>) => {
+    for (const [key, entry] of Object.entries(current)) {
+      if (key.includes('.')) hasDottedKeys = true;
+      if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+        hasObjects = true;
+        visit(entry as Record<string, unknown>);
+      }
+    }
+  };
+  visit(data);
+
+  if (hasDottedKeys && !hasObjects) return 'flat';
+  if (hasDottedKeys) return 'mixed';
+  return 'nested';
+}
+
+function setMixedValue(target: Record<string, unknown>, key: string, value: string) {
+  const parts = key.split('.');
+  let current = target;
+  let index = 0;
+
+  while (index < parts.length - 1) {
+    let advanced = false;
+    for (let endIndex = parts.length - 2; endIndex >= index; endIndex -= 1) {
+      const joinedKey = parts.slice(index, endIndex + 1).join('.');
+      const next = current[joinedKey];
+      if (next && typeof next === 'object' && !Array.isArray(next)) {
+        current = next as Record<string, unknown>;
+        index = endIndex + 1;
+        advanced = true;
+        break;
+      }
+    }
+    if (!advanced) break;
+  }
+
+  const remainder = parts.slice(index).join('.');
+  if (Object.keys(current).some(existing => existing.includes('.'))) {
+    current[remainder] = value;
+  } else {
+    setNestedValue(current, remainder, value);
+  }
+}
+
+function reshape(data: Record<string, unknown>, layout: 'nested' | 'flat'): Record<string, unknown> {
+  const flattened = flattenObject(data);
+  if (layout === 'flat') return flattened;
+
+  const nested: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flattened)) {
+    setNestedValue(nested, key, value);
+  }
+  return nested;
+}
+
+function createJsonDocument(
+  data: Record<string, unknown>,
+  style: JsonStyle,
+  detected: JsonLayout,
+  preference: KeyLayout
+): LocaleDocument {
+  const layout: JsonLayout = preference === 'auto' ? detected : preference;
+
+  return {
+    values: () => flattenObject(data),
+    has: key => resolveKeyPath(data, key) !== null || getNestedValue(data, key) !== undefined,
+    set: (key, value) => {
+      const existing = resolveKeyPath(data, key);
+      if (existing) {
+        const parent = existing.slice(0, -1).reduce<Record<string, unknown>>(
+          (current, segment) => current[segment] as Record<string, unknown>,
+          data
+        );
+        parent[existing[existing.length - 1]] = value;
+        return;
+      }
+
+      if (layout === 'flat') {
+        data[key] = value;
+      } else if (layout === 'mixed') {
+        setMixedValue(data, key, value);
+      } else {
+        setNestedValue(data, key, value);
+      }
+    },
+    remove: key => removeNestedValue(data, key),
+    serialize: () => {
+      const output = preference !== 'auto' && detected !== preference
+        ? reshape(data, preference)
+        : data;
+      let json = JSON.stringify(output, null, style.indent);
+      if (style.eol !== '\n') json = json.replace(/\n/g, style.eol);
+      if (style.finalNewline) json += style.eol;
+      return style.bom ? `\uFEFF${json}` : json;
+    },
+    createSibling: () => createJsonDocument({}, style, layout, preference)
+  };
+}
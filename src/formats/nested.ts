@@ -0,0 +1,111 @@
+export function flattenObject(
+  value: Record<string, unknown>,
+  prefix = '',
+  out: Record<string, string> = {}
+): Record<string, string> {
+  if (typeof value !== 'object' || value === null) return out;
+  for (const [key, entry] of Object.entries(value)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (typeof entry === 'string') {
+      out[fullKey] = entry;
+      continue;
+    }
+    if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+      flattenObject(entry as Record<string, unknown>, fullKey, out);
+    }
+  }
+  return out;
+}
+
+export function setNestedValue(target: Record<string, unknown>, key: string, value: string) {
+  const parts = key.split('.');
+  let current: Record<string, unknown> = target;
+  for (let i = 0; i < parts.length - 1; i++) {
+    const part = parts[i];
+    const next = current[part];
+    if (!next || typeof next !== 'object' || Array.isArray(next)) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+export function getNestedValue(target: Record<string, unknown>, key: string): unknown {
+  const parts = key.split('.');
+  let current: unknown = target;
+  for (const part of parts) {
+    if (!current || typeof current !== 'object') return undefined;
+    const next = (current as Record<string, unknown>)[part];
+    if (next === undefined) return undefined;
+    current = next;
+  }
+  return current;
+}
+
+export function removeNestedValue(target: Record<string, unknown>, key: string): boolean {
+  const parts = key.split('.');
+  if (parts.length === 0) return false;
+
+  const removeBySegments = (current: Record<string, unknown>, startIndex: number): boolean => {
+    let removed = false;
+    for (let endIndex = startIndex; endIndex < parts.length; endIndex += 1) {
+      const joinedKey = parts.slice(startIndex, endIndex + 1).join('.');
+      if (!Object.prototype.hasOwnProperty.call(current, joinedKey)) {
+        continue;
+      }
+
+      if (endIndex === parts.length - 1) {
+        delete current[joinedKey];
+        removed = true;
+        continue;
+      }
+
+      const next = current[joinedKey];
+      if (!next || typeof next !== 'object' || Array.isArray(next)) {
+        continue;
+      }
+
+      const removedChild = removeBySegments(next as Record<string, unknown>, endIndex + 1);
+      if (removedChild) {
+        removed = true;
+        if (Object.keys(next as Record<string, unknown>).length === 0) {
+          delete current[joinedKey];
+        }
+      }
+    }
+
+    return removed;
+  };
+
+  return removeBySegments(target, 0);
+}
+
+export function resolveKeyPath(target: Record<string, unknown>, key: string): string[] | null {
+  const parts = key.split('.');
+
+  const resolve = (current: Record<string, unknown>, startIndex: number): string[] | null => {
+    for (let endIndex = startIndex; endIndex < parts.length; endIndex += 1) {
+      const joinedKey = parts.slice(startIndex, endIndex + 1).join('.');
+      if (!Object.prototype.hasOwnProperty.call(current, joinedKey)) {
+        continue;
+      }
+
+      const next = current[joinedKey];
+      if (endIndex === parts.length - 1) {
+        if (typeof next === 'string') return [joinedKey];
+        continue;
+      }
+
+      if (!next || typeof next !== 'object' || Array.isArray(next)) {
+        continue;
+      }
+
+      const rest = resolve(next as Record<string, unknown>, endIndex + 1);
+      if (rest) return [joinedKey, ...rest];
+    }
+    return null;
+  };
+
+  return resolve(target, 0);
+}
@@ -0,0 +1,312 @@
+import { LocaleDocument, LocaleFormat } from './types';
+
+type PoEntry = {
+  lines: string[];
+  dirty: boolean;
+  comments: string[];
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+  msgstr: string[];
+};
+
+type PoBlock = { kind: 'raw'; lines: string[] } | { kind: 'entry'; entry: PoEntry };
+
+const CONTEXT_SEPARATOR = '|';
+// A separator that is not preceded by a backslash; literal `|` in keys is written as `\|`.
+const CONTEXT_SEPARATOR_PATTERN = /(?<!\\)\|/;
+const PLURAL_KEY_PATTERN = /^(.*)\[(\d+)\]$/;
+
+// Blocks of every document built here, so a file can read the entries of its template.
+const documentBlocks = new WeakMap<LocaleDocument, PoBlock[]>();
+
+export const poFormat: LocaleFormat = {
+  id: 'po',
+  extensions: ['.po'],
+  templateExtensions: ['.pot'],
+  parse: raw => createPoDocument(parsePo(raw.replace(/^\uFEFF/, ''))),
+  create: langCode => createEmptyPoDocument(langCode)
+};
+
+function parsePo(raw: string): PoBlock[] {
+  const blocks: PoBlock[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const entry = parseEntry(current);
+    blocks.push(entry ? { kind: 'entry', entry } : { kind: 'raw', lines: current });
+    current = [];
+  };
+
+  for (const line of raw.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.trim() === '') {
+      flush();
+      continue;
+    }
+    current.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+function parseEntry(lines: string[]): PoEntry | null {
+  const entry: PoEntry = { lines, dirty: false, comments: [], msgid: '', msgstr: [] };
+  let hasMsgid = false;
+  let target: ((chunk: string) => void) | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('#~')) return null;
+    if (trimmed.startsWith('#')) {
+      entry.comments.push(trimmed);
+      target = null;
+      continue;
+    }
+
+    if (trimmed.startsWith('"')) {
+      target?.(unquote(trimmed));
+      continue;
+    }
+
+    const match = trimmed.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+(".*")$/);
+    if (!match) return null;
+    const [, keyword, index, quoted] = match;
+    const text = unquote(quoted);
+
+    if (keyword === 'msgctxt') {
+      entry.msgctxt = text;
+      target = chunk => (entry.msgctxt += chunk);
+    } else if (keyword === 'msgid') {
+      hasMsgid = true;
+      entry.msgid = text;
+      target = chunk => (entry.msgid += chunk);
+    } else if (keyword === 'msgid_plural') {
+      entry.msgidPlural = text;
+      target = chunk => (entry.msgidPlural += chunk);
+    } else {
+      const position = index === undefined ? 0 : Number(index);
+      entry.msgstr[position] = text;
+      target = chunk => (entry.msgstr[position] += chunk);
+    }
+  }
+
+  return hasMsgid ? entry : null;
+}
+
+function unquote(value: string): string {
+  const inner = value.slice(1, -1);
+  return inner.replace(/\\(.)/g, (_match, char: string) => {
+    if (char === 'n') return '\n';
+    if (char === 't') return '\t';
+    if (char === 'r') return '\r';
+    return char;
+  });
+}
+
+function quote(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+  return `"${escaped}"`;
+}
+
+function formatString(keyword: string, value: string): string[] {
+  const parts = value.split(/(?<=\n)/).filter(part => part.length > 0);
+  if (parts.length <= 1) return [`${keyword} ${quote(value)}`];
+  return [`${keyword} ""`, ...parts.map(part => quote(part))];
+}
+
+function serializeEntry(entry: PoEntry): string[] {
+  if (!entry.dirty) return entry.lines;
+
+  const lines = [...entry.comments];
+  if (entry.msgctxt !== undefined) lines.push(...formatString('msgctxt', entry.msgctxt));
+  lines.push(...formatString('msgid', entry.msgid));
+  if (entry.msgidPlural !== undefined) {
+    lines.push(...formatString('msgid_plural', entry.msgidPlural));
+    entry.msgstr.forEach((value, index) => {
+      lines.push(...formatString(`msgstr[${index}]`, value ?? ''));
+    });
+  } else {
+    lines.push(...formatString('msgstr', entry.msgstr[0] ?? ''));
+  }
+  return lines;
+}
+
+function createHeaderEntry(langCode: string): PoEntry {
+  const header = [
+    `Language: ${langCode}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+    ''
+  ].join('\n');
+  return { lines: [], dirty: true, comments: [], msgid: '', msgstr: [header] };
+}
+
+function isHeader(entry: PoEntry): boolean {
+  return entry.msgid === '' && entry.msgctxt === undefined;
+}
+
+function escapeKeyPart(value: string): string {
+  return value.replace(/\|/g, `\\${CONTEXT_SEPARATOR}`);
+}
+
+function unescapeKeyPart(value: string): string {
+  return value.replace(/\\\|/g, CONTEXT_SEPARATOR);
+}
+
+function entryKey(entry: PoEntry): string {
+  return entry.msgctxt !== undefined
+    ? `${escapeKeyPart(entry.msgctxt)}${CONTEXT_SEPARATOR}${escapeKeyPart(entry.msgid)}`
+    : escapeKeyPart(entry.msgid);
+}
+
+function splitEntryKey(key: string): { msgctxt?: string; msgid: string } {
+  const separator = key.search(CONTEXT_SEPARATOR_PATTERN);
+  if (separator === -1) return { msgid: unescapeKeyPart(key) };
+  return {
+    msgctxt: unescapeKeyPart(key.slice(0, separator)),
+    msgid: unescapeKeyPart(key.slice(separator + 1))
+  };
+}
+
+function clearFuzzy(entry: PoEntry) {
+  entry.comments = entry.comments
+    .map(comment => {
+      if (!comment.startsWith('#,')) return comment;
+      const flags = comment
+        .slice(2)
+        .split(',')
+        .map(flag => flag.trim())
+        .filter(flag => flag && flag !== 'fuzzy');
+      return flags.length > 0 ? `#, ${flags.join(', ')}` : '';
+    })
+    .filter(Boolean);
+}
+
+function createEmptyPoDocument(langCode: string): LocaleDocument {
+  return createPoDocument([{ kind: 'entry', entry: createHeaderEntry(langCode) }]);
+}
+
+function createPoDocument(blocks: PoBlock[]): LocaleDocument {
+  const templatePlurals = new Map<string, PoEntry>();
+  const entries = () =>
+    blocks.flatMap(block => (block.kind === 'entry' && !isHeader(block.entry) ? [block.entry] : []));
+
+  const findEntry = (key: string): { entry: PoEntry; index: number | null } | null => {
+    const exact = entries().find(entry => entryKey(entry) === key);
+    if (exact) return { entry: exact, index: exact.msgidPlural !== undefined ? 0 : null };
+
+    const match = key.match(PLURAL_KEY_PATTERN);
+    if (!match) return null;
+    const plural = entries().find(
+      entry => entry.msgidPlural !== undefined && entryKey(entry) === match[1]
+    );
+    return plural ? { entry: plural, index: Number(match[2]) } : null;
+  };
+
+  const keysOf = (entry: PoEntry): string[] => {
+    const key = entryKey(entry);
+    if (entry.msgidPlural === undefined) return [key];
+    const count = Math.max(entry.msgstr.length, 2);
+    return Array.from({ length: count }, (_value, index) => `${key}[${index}]`);
+  };
+
+  const document: LocaleDocument = {
+    values: () => {
+      const out: Record<string, string> = {};
+      for (const entry of entries()) {
+        keysOf(entry).forEach((key, index) => {
+          out[key] = entry.msgstr[entry.msgidPlural === undefined ? 0 : index] ?? '';
+        });
+      }
+      return out;
+    },
+    has: key => findEntry(key) !== null,
+    set: (key, value) => {
+      const found = findEntry(key);
+      if (found) {
+        found.entry.msgstr[found.index ?? 0] = value;
+        for (let index = 0; index < found.entry.msgstr.length; index += 1) {
+          found.entry.msgstr[index] = found.entry.msgstr[index] ?? '';
+        }
+        clearFuzzy(found.entry);
+        found.entry.dirty = true;
+        return;
+      }
+
+      // `msgid[n]` is a form of a plural entry; writing it as a singular msgid would corrupt the catalog.
+      const plural = key.match(PLURAL_KEY_PATTERN);
+      if (plural) {
+        const source = templatePlurals.get(plural[1]);
+        if (!source) {
+          throw new Error(`Cannot write "${key}": "${plural[1]}" is not a plural entry in this file or its template.`);
+        }
+        const index = Number(plural[2]);
+        const count = Math.max(source.msgstr.length, 2, index + 1);
+        const entry: PoEntry = {
+          lines: [],
+          dirty: true,
+          comments: [],
+          msgid: source.msgid,
+          msgidPlural: source.msgidPlural,
+          msgstr: Array.from({ length: count }, (_value, position) => (position === index ? value : ''))
+        };
+        if (source.msgctxt !== undefined) entry.msgctxt = source.msgctxt;
+        blocks.push({ kind: 'entry', entry });
+        return;
+      }
+
+      const { msgctxt, msgid } = splitEntryKey(key);
+      const entry: PoEntry = { lines: [], dirty: true, comments: [], msgid, msgstr: [value] };
+      if (msgctxt !== undefined) entry.msgctxt = msgctxt;
+      blocks.push({ kind: 'entry', entry });
+    },
+    remove: key => {
+      const found = findEntry(key);
+      if (!found) return false;
+      // A single plural form (`msgid[1]`) is cleared; the entry goes only with its own key.
+      if (key !== entryKey(found.entry)) {
+        found.entry.msgstr[found.index ?? 0] = '';
+        found.entry.dirty = true;
+        return true;
+      }
+      const position = blocks.findIndex(block => block.kind === 'entry' && block.entry === found.entry);
+      blocks.splice(position, 1);
+      return true;
+    },
+    comments: () => {
+      const out: Record<string, string> = {};
+      for (const entry of entries()) {
+        const notes = entry.comments
+          .filter(comment => comment === '#' || /^#[ .]/.test(comment))
+          .map(comment => comment.replace(/^#\.?\s?/, ''));
+        if (notes.length === 0) continue;
+        keysOf(entry).forEach(key => {
+          out[key] = notes.join('\n');
+        });
+      }
+      return out;
+    },
+    useTemplate: template => {
+      for (const block of documentBlocks.get(template) ?? []) {
+        if (block.kind !== 'entry' || block.entry.msgidPlural === undefined) continue;
+        const key = entryKey(block.entry);
+        if (!templatePlurals.has(key)) templatePlurals.set(key, block.entry);
+      }
+    },
+    serialize: () =>
+      blocks
+        .map(block => (block.kind === 'raw' ? block.lines : serializeEntry(block.entry)).join('\n'))
+        .join('\n\n') + '\n',
+    createSibling: langCode => createEmptyPoDocument(langCode)
+  };
+  documentBlocks.set(document, blocks);
+  return document;
+}
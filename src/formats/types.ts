@@ -0,0 +1,35 @@
+export type KeyLayout = 'auto' | 'nested' | 'flat';
+
+export type JsonParseMode = 'strict' | 'tolerant';
+
+export type LocaleOptions = {
+  keyLayout: KeyLayout;
+  jsonParseMode: JsonParseMode;
+};
+
+export type LocaleDocument = {
+  values(): Record<string, string>;
+  has(key: string): boolean;
+  set(key: string, value: string): void;
+  remove(key: string): boolean;
+  comments?(): Record<string, string>;
+  // Lets the document create entries its template (e.g. a `.pot` file) describes.
+  useTemplate?(template: LocaleDocument): void;
+  serialize(): string;
+  createSibling(langCode: string): LocaleDocument;
+};
+
+export type LocaleFormat = {
+  id: string;
+  extensions: string[];
+  templateExtensions?: string[];
+  parse(raw: string, langCode: string, options: LocaleOptions): LocaleDocument;
+  create(langCode: string, options: LocaleOptions): LocaleDocument;
+};
+
+export type LocaleFile = {
+  code: string;
+  namespace?: string;
+  filePath: string;
+  format: LocaleFormat;
+};
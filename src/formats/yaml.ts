@@ -0,0 +1,83 @@
+import { Document, isMap, isScalar, parseDocument } from 'yaml';
+import { flattenObject, getNestedValue, resolveKeyPath } from './nested';
+import { LocaleParseError } from './errors';
+import { LocaleDocument, LocaleFormat } from './types';
+
+export const yamlFormat: LocaleFormat = {
+  id: 'yaml',
+  extensions: ['.yml', '.yaml'],
+  parse: (raw, langCode) => {
+    const doc = parseDocument(raw.replace(/^\uFEFF/, ''));
+    if (doc.errors.length > 0) {
+      const [error] = doc.errors;
+      const [position] = error.linePos ?? [];
+      const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+      throw new LocaleParseError(message, position?.line ?? 1, position?.col ?? 1);
+    }
+    return createYamlDocument(doc, detectRootKey(doc, langCode));
+  },
+  create: () => createYamlDocument(new Document({}), null)
+};
+
+// Rails-style files wrap every key in a single top-level entry named after the locale (`en:`).
+function detectRootKey(doc: Document, langCode: string): string | null {
+  const contents = doc.contents;
+  if (!isMap(contents) || contents.items.length !== 1) return null;
+
+  const pair = contents.items[0];
+  const name = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+  const normalize = (value: string) => value.toLowerCase().replace('_', '-');
+  if (normalize(name) !== normalize(langCode)) return null;
+
+  return isMap(pair.value) ? name : null;
+}
+
+function createYamlDocument(doc: Document, rootKey: string | null): LocaleDocument {
+  const root = rootKey ? [rootKey] : [];
+
+  const toPlain = (): Record<string, unknown> => {
+    const json = doc.toJS() as unknown;
+    const scoped = rootKey && json && typeof json === 'object'
+      ? (json as Record<string, unknown>)[rootKey]
+      : json;
+    return scoped && typeof scoped === 'object' && !Array.isArray(scoped)
+      ? (scoped as Record<string, unknown>)
+      : {};
+  };
+
+  const pruneEmptyParents = (segments: string[]) => {
+    for (let length = segments.length - 1; length > 0; length -= 1) {
+      const node = doc.getIn([...root, ...segments.slice(0, length)], true);
+      if (!isMap(node) || node.items.length > 0) break;
+      doc.deleteIn([...root, ...segments.slice(0, length)]);
+    }
+  };
+
+  return {
+    values: () => flattenObject(toPlain()),
+    has: key => getNestedValue(toPlain(), key) !== undefined,
+    set: (key, value) => {
+      const segments = resolveKeyPath(toPlain(), key) ?? key.split('.');
+      for (let length = 1; length < segments.length; length += 1) {
+        const path = [...root, ...segments.slice(0, length)];
+        const node = doc.getIn(path, true);
+        if (node !== undefined && !isMap(node)) {
+          doc.setIn(path, doc.createNode({}));
+        }
+      }
+      doc.setIn([...root, ...segments], value);
+    },
+    remove: key => {
+      const segments = resolveKeyPath(toPlain(), key);
+      if (!segments) return false;
+      doc.deleteIn([...root, ...segments]);
+      pruneEmptyParents(segments);
+      return true;
+    },
+    serialize: () => doc.toString({ lineWidth: 0 }),
+    createSibling: langCode => {
+      const sibling = new Document(rootKey ? { [langCode]: {} } : {});
+      return createYamlDocument(sibling, rootKey ? langCode : null);
+    }
+  };
+}
@@ -0,0 +1,99 @@
+export type CellChange = {
+  key: string;
+  lang: string;
+  before: string | null;
+  after: string | null;
+};
+
+export type HistoryKind =
+  | 'updateValue'
+  | 'addKey'
+  | 'deleteKey'
+  | 'renameKey'
+  | 'duplicateKey'
+  | 'translateAll'
+  | 'quickAdd'
+  | 'bulkDelete'
+  | 'bulkMove'
+  | 'bulkClear'
+  | 'bulkTranslate'
+  | 'qaFix'
+  | 'importXliff';
+
+export type HistoryGroup = {
+  id: string;
+  kind: HistoryKind;
+};
+
+export type HistoryEntry = {
+  id: number;
+  kind: HistoryKind;
+  groupId?: string;
+  i18nDir: string;
+  timestamp: number;
+  changes: CellChange[];
+};
+
+const MAX_ENTRIES = 100;
+const TYPING_MERGE_MS = 2000;
+
+export function createHistory() {
+  let entries: HistoryEntry[] = [];
+  let position = 0;
+  let nextId = 1;
+
+  const canMerge = (last: HistoryEntry | undefined, entry: Omit<HistoryEntry, 'id'>): last is HistoryEntry => {
+    if (!last || position !== entries.length || last.i18nDir !== entry.i18nDir) return false;
+    if (entry.groupId) return last.groupId === entry.groupId;
+    if (last.kind !== 'updateValue' || entry.kind !== 'updateValue' || last.groupId) return false;
+    if (entry.timestamp - last.timestamp > TYPING_MERGE_MS) return false;
+    const [previous] = last.changes;
+    const [next] = entry.changes;
+    return last.changes.length === 1 && entry.changes.length === 1 &&
+      previous.key === next.key && previous.lang === next.lang;
+  };
+
+  const record = (entry: Omit<HistoryEntry, 'id'>) => {
+    if (entry.changes.length === 0) return;
+    const last = entries[entries.length - 1];
+
+    if (canMerge(last, entry)) {
+      for (const change of entry.changes) {
+        const existing = last.changes.find(item => item.key === change.key && item.lang === change.lang);
+        if (existing) {
+          existing.after = change.after;
+        } else {
+          last.changes.push({ ...change });
+        }
+      }
+      last.timestamp = entry.timestamp;
+      return;
+    }
+
+    entries = entries.slice(0, position);
+    entries.push({ ...entry, id: nextId++, changes: entry.changes.map(change => ({ ...change })) });
+    if (entries.length > MAX_ENTRIES) {
+      entries = entries.slice(entries.length - MAX_ENTRIES);
+    }
+    position = entries.length;
+  };
+
+  const undo = (): HistoryEntry | null => {
+    if (position === 0) return null;
+    position -= 1;
+    return entries[position];
+  };
+
+  const redo = (): HistoryEntry | null => {
+    if (position >= entries.length) return null;
+    position += 1;
+    return entries[position - 1];
+  };
+
+  return {
+    record,
+    undo,
+    redo,
+    snapshot: () => ({ entries: entries.map(entry => ({ ...entry })), position })
+  };
+}
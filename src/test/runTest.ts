@@ -3,9 +3,10 @@ import { runTests } from '@vscode/test-electron';
 
 async function main() {
   try {
-    const extensionDevelopmentPath = path.resolve(__dirname, '..', '..');
+    // Compiled to out/src/test, next to the webview services the suite imports.
+    const extensionDevelopmentPath = path.resolve(__dirname, '..', '..', '..');
     const extensionTestsPath = path.resolve(__dirname, './suite/index');
-    const testWorkspace = path.resolve(__dirname, '../../test-fixtures');
+    const testWorkspace = path.resolve(__dirname, '../../../test-fixtures');
 
     await runTests({
       extensionDevelopmentPath,
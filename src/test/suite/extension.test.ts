@@ -9,4 +9,13 @@ suite('Kraken i18n Extension', () => {
     const commands = await vscode.commands.getCommands(true);
     assert.ok(commands.includes('polyglotManager.open'));
   });
+
+  test('registers the XLIFF commands', async () => {
+    const extension = vscode.extensions.getExtension('quira.polyglot-manager');
+    assert.ok(extension, 'Extension not found');
+    await extension.activate();
+    const commands = await vscode.commands.getCommands(true);
+    assert.ok(commands.includes('polyglotManager.exportXliff'));
+    assert.ok(commands.includes('polyglotManager.importXliff'));
+  });
 });
@@ -0,0 +1,204 @@
+import * as assert from 'assert';
+import { LocaleOptions, LocaleParseError } from '../../formats';
+import { jsonFormat } from '../../formats/json';
+import { poFormat } from '../../formats/po';
+import { yamlFormat } from '../../formats/yaml';
+
+const OPTIONS: LocaleOptions = { keyLayout: 'auto', jsonParseMode: 'strict' };
+
+suite('JSON format', () => {
+  test('round-trips a file unchanged', () => {
+    const raw = '{\n    "app": {\n        "title": "Titel"\n    }\n}\n';
+
+    assert.strictEqual(jsonFormat.parse(raw, 'de', OPTIONS).serialize(), raw);
+  });
+
+  test('keeps indentation, line endings, BOM and the missing final newline', () => {
+    const raw = '\uFEFF{\r\n\t"a": "1"\r\n}';
+    const document = jsonFormat.parse(raw, 'de', OPTIONS);
+    document.set('b', '2');
+
+    assert.strictEqual(document.serialize(), '\uFEFF{\r\n\t"a": "1",\r\n\t"b": "2"\r\n}');
+  });
+
+  test('keeps flat files flat and nested files nested', () => {
+    const flat = jsonFormat.parse('{\n  "app.title": "Titel"\n}\n', 'de', OPTIONS);
+    flat.set('app.subtitle', 'Untertitel');
+    assert.deepStrictEqual(JSON.parse(flat.serialize()), { 'app.title': 'Titel', 'app.subtitle': 'Untertitel' });
+
+    const nested = jsonFormat.parse('{\n  "app": { "title": "Titel" }\n}\n', 'de', OPTIONS);
+    nested.set('app.subtitle', 'Untertitel');
+    assert.deepStrictEqual(JSON.parse(nested.serialize()), { app: { title: 'Titel', subtitle: 'Untertitel' } });
+  });
+
+  test('removes keys and empty parents', () => {
+    const document = jsonFormat.parse('{"app": {"title": "Titel"}, "b": "2"}', 'de', OPTIONS);
+
+    assert.strictEqual(document.remove('app.title'), true);
+    assert.strictEqual(document.remove('app.missing'), false);
+    assert.deepStrictEqual(document.values(), { b: '2' });
+  });
+
+  test('reports the position of syntax errors', () => {
+    assert.throws(
+      () => jsonFormat.parse('{\n  "a": "1",\n}\n', 'de', OPTIONS),
+      (error: unknown) => error instanceof LocaleParseError && error.line === 3
+    );
+  });
+
+  test('accepts comments and trailing commas in tolerant mode', () => {
+    const document = jsonFormat.parse(
+      '{\n  // title\n  "a": "1", /* note */\n}\n',
+      'de',
+      { ...OPTIONS, jsonParseMode: 'tolerant' }
+    );
+
+    assert.deepStrictEqual(document.values(), { a: '1' });
+  });
+});
+
+suite('YAML format', () => {
+  test('keeps comments and key order when a value changes', () => {
+    const raw = [
+      '# Greetings',
+      'app:',
+      '  # Shown in the header',
+      '  title: Titel',
+      '  subtitle: Untertitel # short',
+      'footer: Fuß',
+      ''
+    ].join('\n');
+    const document = yamlFormat.parse(raw, 'de', OPTIONS);
+    document.set('app.title', 'Neuer Titel');
+
+    assert.strictEqual(document.serialize(), raw.replace('title: Titel', 'title: Neuer Titel'));
+  });
+
+  test('reads and writes Rails-style files under the locale key', () => {
+    const document = yamlFormat.parse('de:\n  app:\n    title: Titel\n', 'de', OPTIONS);
+    document.set('app.body', 'Text');
+
+    assert.deepStrictEqual(document.values(), { 'app.title': 'Titel', 'app.body': 'Text' });
+    assert.strictEqual(document.serialize(), 'de:\n  app:\n    title: Titel\n    body: Text\n');
+    assert.strictEqual(document.createSibling('fr').serialize(), 'fr: {}\n');
+  });
+
+  test('removes keys and prunes empty parents', () => {
+    const document = yamlFormat.parse('app:\n  title: Titel\nfooter: Fuß\n', 'de', OPTIONS);
+    document.remove('app.title');
+
+    assert.strictEqual(document.serialize(), 'footer: Fuß\n');
+  });
+
+  test('reports the position of syntax errors', () => {
+    assert.throws(
+      () => yamlFormat.parse('app:\n  title: "Titel\n', 'de', OPTIONS),
+      (error: unknown) => error instanceof LocaleParseError && error.line >= 2
+    );
+  });
+});
+
+suite('PO format', () => {
+  const PO = [
+    'msgid ""',
+    'msgstr ""',
+    '"Language: de\\n"',
+    '',
+    '# Translator note',
+    '#. Extracted note',
+    '#: src/app.ts:10',
+    '#, fuzzy',
+    'msgid "Save"',
+    'msgstr "Sichern"',
+    '',
+    'msgctxt "menu"',
+    'msgid "Open"',
+    'msgstr "Öffnen"',
+    '',
+    'msgid "One file"',
+    'msgid_plural "%d files"',
+    'msgstr[0] "Eine Datei"',
+    'msgstr[1] "%d Dateien"',
+    ''
+  ].join('\n');
+
+  test('round-trips a file unchanged', () => {
+    assert.strictEqual(poFormat.parse(PO, 'de', OPTIONS).serialize(), PO);
+  });
+
+  test('exposes context keys, plural forms and comments', () => {
+    const document = poFormat.parse(PO, 'de', OPTIONS);
+
+    assert.deepStrictEqual(document.values(), {
+      Save: 'Sichern',
+      'menu|Open': 'Öffnen',
+      'One file[0]': 'Eine Datei',
+      'One file[1]': '%d Dateien'
+    });
+    assert.deepStrictEqual(document.comments?.(), { Save: 'Translator note\nExtracted note' });
+  });
+
+  test('rewrites only the edited entry and clears its fuzzy flag', () => {
+    const document = poFormat.parse(PO, 'de', OPTIONS);
+    document.set('Save', 'Speichern');
+
+    assert.strictEqual(
+      document.serialize(),
+      PO.replace('#, fuzzy\n', '').replace('msgstr "Sichern"', 'msgstr "Speichern"')
+    );
+  });
+
+  test('writes plural forms back in place', () => {
+    const document = poFormat.parse(PO, 'de', OPTIONS);
+    document.set('One file[1]', '%d Dokumente');
+
+    assert.strictEqual(document.serialize(), PO.replace('"%d Dateien"', '"%d Dokumente"'));
+  });
+
+  test('clears a single plural form and removes the entry only by its own key', () => {
+    const document = poFormat.parse(PO, 'de', OPTIONS);
+
+    assert.strictEqual(document.remove('One file[1]'), true);
+    assert.strictEqual(document.values()['One file[1]'], '');
+    assert.strictEqual(document.values()['One file[0]'], 'Eine Datei');
+
+    assert.strictEqual(document.remove('One file'), true);
+    assert.strictEqual(document.has('One file[0]'), false);
+  });
+
+  test('creates plural entries from the template and rejects forms without one', () => {
+    const template = poFormat.parse(PO.replace(/msgstr(\[\d\])? "[^"]+"/g, 'msgstr$1 ""'), 'de', OPTIONS);
+    const document = poFormat.create('fr', OPTIONS);
+
+    assert.throws(() => document.set('One file[1]', '%d fichiers'), /not a plural entry/);
+    document.useTemplate?.(template);
+    document.set('One file[1]', '%d fichiers');
+
+    assert.ok(document.serialize().includes('msgid "One file"\nmsgid_plural "%d files"\nmsgstr[0] ""\nmsgstr[1] "%d fichiers"'));
+    assert.deepStrictEqual(poFormat.parse(document.serialize(), 'fr', OPTIONS).values(), {
+      'One file[0]': '',
+      'One file[1]': '%d fichiers'
+    });
+    assert.throws(() => document.set('Other[0]', 'x'), /not a plural entry/);
+  });
+
+  test('creates context entries and keeps literal pipes escaped', () => {
+    const document = poFormat.parse(PO, 'de', OPTIONS);
+    document.set('toolbar|Close', 'Schließen');
+    document.set('A\\|B', 'A oder B');
+
+    const reparsed = poFormat.parse(document.serialize(), 'de', OPTIONS);
+    assert.strictEqual(reparsed.values()['toolbar|Close'], 'Schließen');
+    assert.strictEqual(reparsed.values()['A\\|B'], 'A oder B');
+    assert.ok(document.serialize().includes('msgctxt "toolbar"\nmsgid "Close"'));
+    assert.ok(document.serialize().includes('msgid "A|B"\nmsgstr "A oder B"'));
+  });
+
+  test('escapes quotes and splits multi-line values', () => {
+    const document = poFormat.parse(PO, 'de', OPTIONS);
+    document.set('Save', 'Er sagte "Hallo"\nzweite Zeile');
+
+    assert.ok(document.serialize().includes('msgstr ""\n"Er sagte \\"Hallo\\"\\n"\n"zweite Zeile"'));
+    assert.strictEqual(poFormat.parse(document.serialize(), 'de', OPTIONS).values().Save, 'Er sagte "Hallo"\nzweite Zeile');
+  });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { CellChange, HistoryEntry, createHistory } from '../../history';
+
+const change = (key: string, before: string | null, after: string | null, lang = 'de'): CellChange => ({
+  key,
+  lang,
+  before,
+  after
+});
+
+const entry = (
+  changes: CellChange[],
+  overrides: Partial<Omit<HistoryEntry, 'id' | 'changes'>> = {}
+): Omit<HistoryEntry, 'id'> => ({
+  kind: 'updateValue',
+  i18nDir: '/i18n',
+  timestamp: 1000,
+  changes,
+  ...overrides
+});
+
+suite('History', () => {
+  test('merges typing in the same cell into one entry', () => {
+    const history = createHistory();
+    history.record(entry([change('a', '', 'H')], { timestamp: 1000 }));
+    history.record(entry([change('a', 'H', 'He')], { timestamp: 1500 }));
+    history.record(entry([change('a', 'He', 'Hey')], { timestamp: 2500 }));
+
+    const { entries, position } = history.snapshot();
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(position, 1);
+    assert.deepStrictEqual(entries[0].changes, [change('a', '', 'Hey')]);
+  });
+
+  test('starts a new entry after a pause, in another cell or for another kind', () => {
+    const history = createHistory();
+    history.record(entry([change('a', '', 'x')], { timestamp: 1000 }));
+    history.record(entry([change('a', 'x', 'y')], { timestamp: 4000 }));
+    history.record(entry([change('b', '', 'z')], { timestamp: 4500 }));
+    history.record(entry([change('b', 'z', null)], { kind: 'deleteKey', timestamp: 4600 }));
+
+    assert.strictEqual(history.snapshot().entries.length, 4);
+  });
+
+  test('merges entries of the same group regardless of timing', () => {
+    const history = createHistory();
+    history.record(entry([change('a', '', '1')], { kind: 'translateAll', groupId: 'g1', timestamp: 1000 }));
+    history.record(entry([change('b', '', '2')], { kind: 'translateAll', groupId: 'g1', timestamp: 60000 }));
+    history.record(entry([change('a', '1', '3')], { kind: 'translateAll', groupId: 'g1', timestamp: 60001 }));
+
+    const { entries } = history.snapshot();
+    assert.strictEqual(entries.length, 1);
+    assert.deepStrictEqual(entries[0].changes, [change('a', '', '3'), change('b', '', '2')]);
+  });
+
+  test('ignores entries without changes', () => {
+    const history = createHistory();
+    history.record(entry([]));
+
+    assert.deepStrictEqual(history.snapshot(), { entries: [], position: 0 });
+    assert.strictEqual(history.undo(), null);
+  });
+
+  test('undoes and redoes entries in order', () => {
+    const history = createHistory();
+    history.record(entry([change('a', '', '1')], { timestamp: 1000 }));
+    history.record(entry([change('b', '', '2')], { timestamp: 1100 }));
+
+    assert.deepStrictEqual(history.undo()?.changes, [change('b', '', '2')]);
+    assert.deepStrictEqual(history.undo()?.changes, [change('a', '', '1')]);
+    assert.strictEqual(history.undo(), null);
+    assert.strictEqual(history.snapshot().position, 0);
+
+    assert.deepStrictEqual(history.redo()?.changes, [change('a', '', '1')]);
+    assert.deepStrictEqual(history.redo()?.changes, [change('b', '', '2')]);
+    assert.strictEqual(history.redo(), null);
+    assert.strictEqual(history.snapshot().position, 2);
+  });
+
+  test('drops the redo entries when something new is recorded after an undo', () => {
+    const history = createHistory();
+    history.record(entry([change('a', '', '1')], { timestamp: 1000 }));
+    history.record(entry([change('b', '', '2')], { timestamp: 1100 }));
+    history.undo();
+    history.record(entry([change('b', '', '3')], { timestamp: 1200 }));
+
+    const { entries, position } = history.snapshot();
+    assert.deepStrictEqual(
+      entries.map(item => item.changes),
+      [[change('a', '', '1')], [change('b', '', '3')]]
+    );
+    assert.strictEqual(position, 2);
+    assert.strictEqual(history.redo(), null);
+  });
+
+  test('does not merge into an entry that was undone', () => {
+    const history = createHistory();
+    history.record(entry([change('a', '', 'x')], { timestamp: 1000 }));
+    history.undo();
+    history.record(entry([change('a', '', 'y')], { timestamp: 1100 }));
+
+    const { entries } = history.snapshot();
+    assert.strictEqual(entries.length, 1);
+    assert.deepStrictEqual(entries[0].changes, [change('a', '', 'y')]);
+  });
+
+  test('keeps only the latest 100 entries', () => {
+    const history = createHistory();
+    for (let index = 0; index < 105; index += 1) {
+      history.record(entry([change(`k${index}`, '', 'v')], { kind: 'addKey', timestamp: index }));
+    }
+
+    const { entries, position } = history.snapshot();
+    assert.strictEqual(entries.length, 100);
+    assert.strictEqual(position, 100);
+    assert.strictEqual(entries[0].changes[0].key, 'k5');
+  });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import {
+  IcuSyntaxError,
+  collectIcuArguments,
+  formatIcu,
+  getPluralCategories,
+  hasIcuSyntax,
+  parseIcu,
+  printIcu,
+  validateIcu
+} from '../../../services/icu';
+
+const NESTED = [
+  '{gender, select,',
+  ' female {{guests, plural, offset:1 =0 {She is alone} one {She invites {name}} other {She invites {name} and # others}}}',
+  ' other {{guests, plural, offset:1 =0 {They are alone} one {They invite {name}} other {They invite {name} and # others}}}',
+  '}'
+].join('');
+
+suite('ICU messages', () => {
+  test('detects plural, select and selectordinal arguments', () => {
+    assert.ok(hasIcuSyntax('{count, plural, other {#}}'));
+    assert.ok(hasIcuSyntax('{place, selectordinal, other {#th}}'));
+    assert.ok(!hasIcuSyntax('Hello {name}'));
+  });
+
+  test('parses a plural with offset nested in a select', () => {
+    const [select] = parseIcu(NESTED);
+
+    assert.strictEqual(select.type, 'select');
+    if (select.type !== 'select') return;
+    assert.deepStrictEqual(select.options.map(option => option.selector), ['female', 'other']);
+    const [plural] = select.options[0].value;
+    assert.strictEqual(plural.type, 'plural');
+    if (plural.type !== 'plural') return;
+    assert.strictEqual(plural.offset, 1);
+    assert.deepStrictEqual(plural.options.map(option => option.selector), ['=0', 'one', 'other']);
+    assert.deepStrictEqual(plural.options[2].value, [
+      { type: 'text', value: 'She invites ' },
+      { type: 'argument', name: 'name' },
+      { type: 'text', value: ' and ' },
+      { type: 'pound' },
+      { type: 'text', value: ' others' }
+    ]);
+  });
+
+  test('formats nested messages, applying the offset to the category and to #', () => {
+    const nodes = parseIcu(NESTED);
+    const format = (gender: string, guests: number) => formatIcu(nodes, { gender, guests, name: 'Ana' }, 'en');
+
+    assert.strictEqual(format('female', 0), 'She is alone');
+    assert.strictEqual(format('female', 2), 'She invites Ana');
+    assert.strictEqual(format('female', 5), 'She invites Ana and 4 others');
+    assert.strictEqual(format('male', 3), 'They invite Ana and 2 others');
+  });
+
+  test('prints parsed messages back to equivalent source, quoting one span of syntax characters', () => {
+    const nodes = parseIcu(NESTED);
+
+    assert.deepStrictEqual(parseIcu(printIcu(nodes)), nodes);
+    assert.strictEqual(
+      printIcu(parseIcu("{n, plural, other {'{'literal'}' and '#' and it''s #}}")),
+      "{n, plural, other {'{literal} and #' and it''s #}}"
+    );
+  });
+
+  test('collects every argument name with its kind', () => {
+    assert.deepStrictEqual(
+      Array.from(collectIcuArguments(parseIcu(NESTED))),
+      [
+        ['gender', 'select'],
+        ['guests', 'plural'],
+        ['name', 'argument']
+      ]
+    );
+  });
+
+  test('reports syntax errors with their code and offset', () => {
+    const errorOf = (message: string) => {
+      try {
+        parseIcu(message);
+      } catch (error) {
+        if (error instanceof IcuSyntaxError) return [error.code, error.offset];
+        throw error;
+      }
+      return null;
+    };
+
+    assert.deepStrictEqual(errorOf('Hello {name'), ['unclosedArgument', 11]);
+    assert.deepStrictEqual(errorOf('Hello {}'), ['emptyArgument', 6]);
+    assert.deepStrictEqual(errorOf('Hello }'), ['unexpectedClose', 6]);
+    assert.deepStrictEqual(errorOf('{n, plural, offset:x other {#}}'), ['invalidOffset', 19]);
+    assert.deepStrictEqual(errorOf('{n, plural, one {a} one {b} other {c}}'), ['duplicateOption', 20]);
+    assert.deepStrictEqual(errorOf('{n, select, }'), ['expectedOption', 12]);
+  });
+
+  test('validates required and unused plural categories per language', () => {
+    assert.deepStrictEqual(validateIcu('{n, plural, one {#} other {#}}', 'en'), []);
+    assert.deepStrictEqual(validateIcu('{n, plural, one {#}}', 'en'), [
+      { severity: 'error', code: 'missingOther', argument: 'n' }
+    ]);
+    assert.deepStrictEqual(validateIcu('{n, plural, one {#} other {#}}', 'ru'), [
+      { severity: 'warning', code: 'missingCategory', argument: 'n', categories: ['few', 'many'] }
+    ]);
+    assert.deepStrictEqual(validateIcu('{n, plural, one {#} few {#} other {#}}', 'ja'), [
+      { severity: 'warning', code: 'unusedCategory', argument: 'n', categories: ['one', 'few'] }
+    ]);
+  });
+
+  test('validates plurals nested inside selects', () => {
+    const message = '{g, select, female {{n, plural, one {#}}} other {x}}';
+
+    assert.deepStrictEqual(validateIcu(message, 'en'), [{ severity: 'error', code: 'missingOther', argument: 'n' }]);
+  });
+
+  test('lists the plural categories of a language', () => {
+    assert.deepStrictEqual(getPluralCategories('en'), ['one', 'other']);
+    assert.deepStrictEqual(getPluralCategories('pt_BR'), ['one', 'many', 'other']);
+    assert.deepStrictEqual(getPluralCategories('en', true), ['one', 'two', 'few', 'other']);
+  });
+});
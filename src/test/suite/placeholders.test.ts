@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import { TranslationKey } from '../../../types';
+import { buildPlaceholderReport, checkPlaceholders, checkPluralForm, rowNeedsReview } from '../../../services/placeholders';
+import { PLACEHOLDER_SYNTAXES } from '../../../services/toonPrompt';
+
+suite('Placeholder checks', () => {
+  for (const { example } of PLACEHOLDER_SYNTAXES) {
+    test(`reports a missing ${example}`, () => {
+      assert.deepStrictEqual(checkPlaceholders(`Hello ${example} world`, 'Hallo Welt'), [
+        { kind: 'missing', token: example }
+      ]);
+    });
+
+    test(`reports an extra ${example}`, () => {
+      assert.deepStrictEqual(checkPlaceholders('Hello world', `Hallo ${example} Welt`), [
+        { kind: 'extra', token: example }
+      ]);
+    });
+
+    test(`accepts a moved ${example}`, () => {
+      assert.deepStrictEqual(checkPlaceholders(`${example} items`, `Artikel: ${example}`), []);
+    });
+  }
+
+  test('reports a placeholder replaced by another of the same syntax as renamed', () => {
+    assert.deepStrictEqual(checkPlaceholders('Hi {name}, you have {count}', 'Hallo {nome}, du hast {count}'), [
+      { kind: 'renamed', from: '{name}', to: '{nome}' }
+    ]);
+  });
+
+  test('keeps placeholders of different syntaxes apart', () => {
+    assert.deepStrictEqual(checkPlaceholders('Hi {{name}}', 'Hallo {name}'), [
+      { kind: 'missing', token: '{{name}}' },
+      { kind: 'extra', token: '{name}' }
+    ]);
+  });
+
+  test('compares HTML tags and Markdown tokens by count', () => {
+    assert.deepStrictEqual(checkPlaceholders('Click <b>here</b> or **now**', 'Klicke <b>hier oder **jetzt**'), [
+      { kind: 'tag', token: '</b>', expected: 1, actual: 0 }
+    ]);
+    assert.deepStrictEqual(checkPlaceholders('See [docs](url)', 'Siehe Doku'), [
+      { kind: 'markdown', token: '[…](…)', expected: 1, actual: 0 }
+    ]);
+  });
+
+  test('compares ICU plural and select arguments by name, not their branch bodies', () => {
+    const plural = '{count, plural, one {# item} other {# items}} in {folder}';
+    const select = '{gender, select, female {She} male {He} other {They}} replied, %s';
+
+    assert.deepStrictEqual(checkPlaceholders(plural, '{count, plural, one {# Artikel} other {# Artikel}} in {folder}'), []);
+    assert.deepStrictEqual(checkPlaceholders(select, '{gender, select, female {Sie} other {Es}} antwortete, %s'), []);
+    assert.deepStrictEqual(checkPlaceholders(plural, '{anzahl, plural, other {# Artikel}} in {folder}'), [
+      { kind: 'renamed', from: '{count}', to: '{anzahl}' }
+    ]);
+    assert.deepStrictEqual(checkPlaceholders(select, '{gender, select, other {Es}} antwortete'), [
+      { kind: 'missing', token: '%s' }
+    ]);
+  });
+
+  test('counts markup in one variant of an ICU message', () => {
+    const source = '{count, plural, one {<b>#</b> item} other {<b>#</b> items}}';
+
+    assert.deepStrictEqual(
+      checkPlaceholders(source, '{count, plural, one {<b>#</b> plik} few {<b>#</b> pliki} other {<b>#</b> plików}}'),
+      []
+    );
+    assert.deepStrictEqual(checkPlaceholders(source, '{count, plural, one {# plik} other {# plików}}'), [
+      { kind: 'tag', token: '<b>', expected: 1, actual: 0 },
+      { kind: 'tag', token: '</b>', expected: 1, actual: 0 }
+    ]);
+  });
+
+  test('ignores empty source or translation', () => {
+    assert.deepStrictEqual(checkPlaceholders('Hello {name}', ''), []);
+    assert.deepStrictEqual(checkPlaceholders('', 'Hallo {name}'), []);
+  });
+
+  test('checks plural forms against the same source form, falling back to other', () => {
+    const row: TranslationKey = {
+      id: 'items_other',
+      key: 'items_other',
+      tags: [],
+      plural: { base: 'items', forms: { one: 'items_one', other: 'items_other' } }
+    };
+    const values = {
+      items_one: { en: 'One item', ru: 'Один предмет' },
+      items_few: { ru: '{count} предмета' },
+      items_other: { en: '{count} items', ru: 'предметов' }
+    };
+
+    assert.deepStrictEqual(buildPlaceholderReport([row], values, 'en', ['en', 'ru']), {
+      items_other: { ru: [{ kind: 'missing', token: '{count}' }] }
+    });
+  });
+
+  test('lets plural forms use the placeholders of other and drop the count', () => {
+    const source = { one: 'One file in {{folder}}', other: '{{count}} files in {{folder}}' };
+
+    assert.deepStrictEqual(checkPluralForm(source, 'one', '{{count}} файл в {{folder}}'), []);
+    assert.deepStrictEqual(checkPluralForm(source, 'few', '{{count}} файла в {{folder}}'), []);
+    assert.deepStrictEqual(checkPluralForm(source, 'many', 'файлов в {{folder}}'), []);
+    assert.deepStrictEqual(checkPluralForm(source, 'one', 'один файл в {{name}}'), [
+      { kind: 'renamed', from: '{{folder}}', to: '{{name}}' }
+    ]);
+    assert.deepStrictEqual(checkPluralForm(source, 'other', 'файлов в {{folder}}'), [
+      { kind: 'missing', token: '{{count}}' }
+    ]);
+  });
+
+  test('finds parked AI output for plain and plural rows', () => {
+    const plain: TranslationKey = { id: 'title', key: 'title', tags: [] };
+    const plural: TranslationKey = {
+      id: 'items_other',
+      key: 'items_other',
+      tags: [],
+      plural: { base: 'items', forms: { other: 'items_other' } }
+    };
+    const needsReview = { title: { de: 'Titel {nme}' }, items_few: { ru: '{cnt} предмета' } };
+
+    assert.ok(rowNeedsReview(plain, needsReview));
+    assert.ok(rowNeedsReview(plain, needsReview, 'de'));
+    assert.ok(!rowNeedsReview(plain, needsReview, 'ru'));
+    assert.ok(rowNeedsReview(plural, needsReview, 'ru'));
+    assert.ok(!rowNeedsReview(plural, needsReview, 'de'));
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { TranslationKey } from '../../../types';
+import {
+  expandKeyIds,
+  findKeyRow,
+  getMissingPluralForms,
+  groupPluralKeys,
+  isKeyTranslated,
+  splitPluralKey
+} from '../../../services/pluralKeys';
+
+const keysOf = (...ids: string[]): TranslationKey[] => ids.map(id => ({ id, key: id, tags: [] }));
+
+suite('Plural keys', () => {
+  test('splits i18next plural suffixes', () => {
+    assert.deepStrictEqual(splitPluralKey('cart.items_few'), { base: 'cart.items', category: 'few' });
+    assert.strictEqual(splitPluralKey('cart.items_total'), null);
+    assert.strictEqual(splitPluralKey('_other'), null);
+  });
+
+  test('groups plural siblings into one row on the _other key', () => {
+    const rows = groupPluralKeys(keysOf('items_one', 'items_other', 'title'));
+
+    assert.deepStrictEqual(rows, [
+      {
+        id: 'items_other',
+        key: 'items_other',
+        tags: [],
+        plural: { base: 'items', forms: { one: 'items_one', other: 'items_other' } }
+      },
+      { id: 'title', key: 'title', tags: [] }
+    ]);
+  });
+
+  test('leaves siblings ungrouped when _other is absent', () => {
+    const keys = keysOf('items_one', 'items_few', 'messages_zero');
+
+    assert.deepStrictEqual(groupPluralKeys(keys), keys);
+  });
+
+  test('groups each base on its own', () => {
+    const rows = groupPluralKeys(keysOf('a_one', 'b_one', 'b_other'));
+
+    assert.deepStrictEqual(rows.map(row => [row.id, row.plural?.base]), [
+      ['a_one', undefined],
+      ['b_other', 'b']
+    ]);
+  });
+
+  test('expands rows to their catalog keys and finds the row of a form', () => {
+    const rows = groupPluralKeys(keysOf('items_one', 'items_other', 'title'));
+
+    assert.deepStrictEqual(expandKeyIds(rows, ['items_other', 'title', 'items_other']), [
+      'items_one',
+      'items_other',
+      'title'
+    ]);
+    assert.strictEqual(findKeyRow(rows, 'items_one')?.id, 'items_other');
+    assert.strictEqual(findKeyRow(rows, 'missing'), undefined);
+  });
+
+  test('lists the forms a language still needs', () => {
+    const [row] = groupPluralKeys(keysOf('items_one', 'items_other'));
+    const values = {
+      items_one: { en: 'One item', ru: 'Один предмет' },
+      items_other: { en: '{count} items', ru: '{count} предмета' }
+    };
+
+    assert.deepStrictEqual(getMissingPluralForms(row.plural!, values, 'en'), []);
+    assert.deepStrictEqual(getMissingPluralForms(row.plural!, values, 'ru'), ['few', 'many']);
+    assert.ok(isKeyTranslated(row, values, 'en'));
+    assert.ok(!isKeyTranslated(row, values, 'ru'));
+  });
+});
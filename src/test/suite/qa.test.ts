@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import { TranslationKey } from '../../../types';
+import {
+  QA_RULES,
+  applyQaFix,
+  checkTranslation,
+  fixTranslation,
+  isQaFixable,
+  resolveQaSettings,
+  runQa
+} from '../../../services/qa';
+
+const DEFAULTS = resolveQaSettings({}, 'de');
+const rulesOf = (source: string, translation: string, settings = DEFAULTS) =>
+  checkTranslation(source, translation, settings).map(issue => issue.rule);
+
+suite('QA checks', () => {
+  test('passes a clean translation', () => {
+    assert.deepStrictEqual(checkTranslation('Save changes.', 'Änderungen speichern.', DEFAULTS), []);
+  });
+
+  test('placeholders: reports placeholder issues', () => {
+    assert.deepStrictEqual(checkTranslation('Hi {name}!', 'Hallo!', DEFAULTS), [
+      { rule: 'placeholders', issue: { kind: 'missing', token: '{name}' } }
+    ]);
+  });
+
+  test('whitespace: compares leading and trailing whitespace', () => {
+    assert.deepStrictEqual(rulesOf('Name: ', 'Nome:'), ['whitespace']);
+    assert.deepStrictEqual(rulesOf(' Name', 'Nome'), ['whitespace']);
+    assert.strictEqual(applyQaFix('whitespace', ' Name: ', 'Nome:  '), ' Nome: ');
+  });
+
+  test('endPunctuation: compares final marks, treating full-width marks as equal', () => {
+    assert.deepStrictEqual(rulesOf('Saved.', 'Gespeichert'), ['endPunctuation']);
+    assert.deepStrictEqual(rulesOf('Really?', 'Wirklich!'), ['endPunctuation']);
+    assert.deepStrictEqual(rulesOf('Saved.', '保存しました。', resolveQaSettings({}, 'ja')), []);
+    assert.strictEqual(applyQaFix('endPunctuation', 'Saved.', 'Gespeichert!'), 'Gespeichert.');
+    assert.strictEqual(applyQaFix('endPunctuation', 'Really?', '本当'), '本当？');
+  });
+
+  test('identical: flags text copied from the source, ignoring placeholders-only text', () => {
+    assert.deepStrictEqual(rulesOf('Dashboard', 'Dashboard'), ['identical']);
+    assert.deepStrictEqual(rulesOf('{count}', '{count}'), []);
+    assert.deepStrictEqual(rulesOf('42', '42'), []);
+  });
+
+  test('lengthRatio: compares lengths only for longer source texts', () => {
+    assert.deepStrictEqual(checkTranslation('Save the file', 'Speichern Sie die Datei jetzt bitte sofort ab', DEFAULTS), [
+      { rule: 'lengthRatio', ratio: 3.5 }
+    ]);
+    assert.deepStrictEqual(rulesOf('Save the file', 'Sichern'), []);
+    assert.deepStrictEqual(rulesOf('OK', 'Einverstanden'), []);
+    const loose = resolveQaSettings({ de: { maxLengthRatio: 4 } }, 'de');
+    assert.deepStrictEqual(rulesOf('Save the file', 'Speichern Sie die Datei jetzt bitte sofort ab', loose), []);
+  });
+
+  test('doubleSpaces: flags repeated spaces the source does not have', () => {
+    assert.deepStrictEqual(rulesOf('Save file', 'Datei  speichern'), ['doubleSpaces']);
+    assert.deepStrictEqual(rulesOf('Save  file', 'Datei  speichern'), []);
+    assert.strictEqual(applyQaFix('doubleSpaces', 'Save file', 'Datei   jetzt  speichern'), 'Datei jetzt speichern');
+  });
+
+  test('capitalization: compares the case of the first letter', () => {
+    assert.deepStrictEqual(rulesOf('Save', 'speichern'), ['capitalization']);
+    assert.deepStrictEqual(rulesOf('save', 'Speichern'), ['capitalization']);
+    assert.deepStrictEqual(rulesOf('Save', '保存'), []);
+    assert.strictEqual(applyQaFix('capitalization', 'Save', '  speichern'), '  Speichern');
+  });
+
+  test('forbiddenTerms: matches whole words case-insensitively', () => {
+    const settings = resolveQaSettings({ '*': { forbiddenTerms: ['click'] }, de: { forbiddenTerms: [' Knopf '] } }, 'de');
+
+    assert.deepStrictEqual(checkTranslation('Press the button', 'Click den Knopf', settings), [
+      { rule: 'forbiddenTerms', term: 'click' },
+      { rule: 'forbiddenTerms', term: 'Knopf' }
+    ]);
+    assert.deepStrictEqual(rulesOf('Press the button', 'Druckknopf drücken', settings), []);
+  });
+
+  test('resolves per-language settings over the defaults', () => {
+    const settings = resolveQaSettings(
+      { '*': { rules: { identical: false, capitalization: false } }, de: { rules: { identical: true } } },
+      'de'
+    );
+
+    assert.strictEqual(settings.rules.identical, true);
+    assert.strictEqual(settings.rules.capitalization, false);
+    assert.strictEqual(settings.rules.whitespace, true);
+    assert.deepStrictEqual(rulesOf('Save', 'speichern', settings), []);
+  });
+
+  test('fixes every fixable rule in one pass', () => {
+    assert.deepStrictEqual(QA_RULES.filter(isQaFixable), ['whitespace', 'endPunctuation', 'doubleSpaces', 'capitalization']);
+    assert.strictEqual(fixTranslation('Save the file.', ' datei  speichern!', DEFAULTS), 'Datei speichern.');
+  });
+
+  test('runs over rows and plural forms, skipping the source language', () => {
+    const rows: TranslationKey[] = [
+      { id: 'title', key: 'title', tags: [] },
+      {
+        id: 'items_other',
+        key: 'items_other',
+        tags: [],
+        plural: { base: 'items', forms: { one: 'items_one', other: 'items_other' } }
+      }
+    ];
+    const values = {
+      title: { en: 'Title', de: 'titel' },
+      items_one: { en: 'One item', de: 'Ein Artikel' },
+      items_other: { en: '{count} items', de: '{count} Artikel' },
+      items_few: { de: '{count} Artikel.' }
+    };
+
+    const findings = runQa(rows, values, 'en', ['en', 'de'], {});
+
+    assert.deepStrictEqual(
+      findings.map(finding => [finding.rowId, finding.keyId, finding.lang, finding.rule, finding.source]),
+      [
+        ['title', 'title', 'de', 'capitalization', 'Title'],
+        ['items_other', 'items_few', 'de', 'endPunctuation', '{count} items']
+      ]
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import {
+  DEFAULT_USAGE_PATTERNS,
+  buildUsageIndex,
+  collectKeyReferences,
+  compileUsagePatterns,
+  findMissingReferences,
+  isKeyReferenced,
+  suggestKeyName,
+  unescapeString
+} from '../../usage';
+
+const { patterns } = compileUsagePatterns(DEFAULT_USAGE_PATTERNS);
+
+suite('Usage scan', () => {
+  test('finds keys in t() calls and i18nKey attributes with their offsets', () => {
+    const text = [
+      "t('auth.login')",
+      'i18n.t("auth.logout")',
+      '<Trans i18nKey="home.title" />',
+      "<Trans i18nKey={'home.body'} />"
+    ].join('\n');
+
+    const references = collectKeyReferences(text, patterns);
+
+    assert.deepStrictEqual(
+      references.map(reference => reference.key).sort(),
+      ['auth.login', 'auth.logout', 'home.body', 'home.title']
+    );
+    for (const reference of references) {
+      assert.strictEqual(text.slice(reference.index, reference.index + reference.length), reference.key);
+    }
+  });
+
+  test('takes offsets from the capture group, not from the first occurrence of the key', () => {
+    const text = "t('t'); tr(\"a\\\"b\")";
+    const custom = compileUsagePatterns(['\\btr\\("((?:\\\\.|[^"\\\\])+)"\\)']).patterns;
+
+    const [short] = collectKeyReferences(text, patterns);
+    assert.deepStrictEqual([short.index, short.length], [3, 1]);
+    const [escaped] = collectKeyReferences(text, custom);
+    assert.strictEqual(text.slice(escaped.index, escaped.index + escaped.length), 'a\\"b');
+  });
+
+  test('does not match other string literals', () => {
+    const references = collectKeyReferences("const type = 'title'; switch (x) { case 'save': }", patterns);
+
+    assert.deepStrictEqual(references, []);
+  });
+
+  test('treats template literals with interpolation as dynamic prefixes', () => {
+    const [reference] = collectKeyReferences('t(`errors.${code}`)', patterns);
+
+    assert.strictEqual(reference.key, 'errors.');
+    assert.strictEqual(reference.dynamic, true);
+    assert.strictEqual(reference.defaultValue, null);
+  });
+
+  test('reads default values from a string argument or the defaultValue option', () => {
+    const references = collectKeyReferences(
+      "t('a', 'Don\\'t go') + t('b', { count, defaultValue: \"Line\\none\" }) + t('c')",
+      patterns
+    );
+
+    assert.deepStrictEqual(
+      references.map(reference => [reference.key, reference.defaultValue]),
+      [
+        ['a', "Don't go"],
+        ['b', 'Line\none'],
+        ['c', null]
+      ]
+    );
+  });
+
+  test('reports invalid custom patterns instead of throwing', () => {
+    const compiled = compileUsagePatterns(['\\btr\\(([^)]+)\\)', '(unclosed']);
+
+    assert.strictEqual(compiled.patterns.length, 1);
+    assert.deepStrictEqual(compiled.invalid, ['(unclosed']);
+    assert.deepStrictEqual(
+      collectKeyReferences('tr(menu.open)', compiled.patterns).map(reference => reference.key),
+      ['menu.open']
+    );
+  });
+
+  test('counts plural variants as used when their base key is referenced', () => {
+    const index = buildUsageIndex(collectKeyReferences("t('cart.items', { count })", patterns));
+
+    for (const suffix of ['zero', 'one', 'two', 'few', 'many', 'other']) {
+      assert.ok(isKeyReferenced(index, `cart.items_${suffix}`), suffix);
+    }
+    assert.ok(!isKeyReferenced(index, 'cart.items_total'));
+    assert.ok(!isKeyReferenced(index, 'cart.item'));
+  });
+
+  test('keeps every key under a dynamic prefix', () => {
+    const index = buildUsageIndex(collectKeyReferences('t(`errors.${code}`)', patterns));
+
+    assert.ok(isKeyReferenced(index, 'errors.not_found'));
+    assert.ok(!isKeyReferenced(index, 'warnings.not_found'));
+  });
+
+  test('lists references missing from the catalog, accepting plural bases', () => {
+    const references = collectKeyReferences(
+      "t('cart.items'); t('cart.total'); t('cart.new'); t(`cart.${name}`)",
+      patterns
+    );
+
+    const missing = findMissingReferences(references, ['cart.items_one', 'cart.items_other', 'cart.total']);
+
+    assert.deepStrictEqual(missing.map(reference => reference.key), ['cart.new']);
+  });
+
+  test('decodes JS string escapes', () => {
+    assert.strictEqual(unescapeString('a\\nb\\tc\\r'), 'a\nb\tc\r');
+    assert.strictEqual(unescapeString("\\\\ \\' \\\" \\`"), '\\ \' " `');
+    assert.strictEqual(unescapeString('\\u00e9\\u{1F600}\\x41'), 'é😀A');
+  });
+
+  test('suggests a key from the file name and the text', () => {
+    assert.strictEqual(suggestKeyName('src/CheckoutForm.tsx', 'Pay now'), 'checkout_form.pay_now');
+    assert.strictEqual(suggestKeyName('src/settings/index.ts', 'Café au lait, s’il vous plaît'), 'settings.cafe_au_lait_s');
+    assert.strictEqual(suggestKeyName('', '!!!'), 'text');
+  });
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocaleDocument, LocaleFile } from '../../formats';
+import { jsonFormat } from '../../formats/json';
+import { LocaleTarget, createWriteQueue } from '../../writeQueue';
+
+const OPTIONS = { keyLayout: 'auto', jsonParseMode: 'strict' } as const;
+
+suite('Write queue', () => {
+  let dir: string;
+
+  setup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kraken-queue-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createTarget = (name: string, initial: string | null = '{}\n') => {
+    const file: LocaleFile = { code: 'de', filePath: path.join(dir, name), format: jsonFormat };
+    if (initial !== null) fs.writeFileSync(file.filePath, initial, 'utf8');
+    let loads = 0;
+    const target: LocaleTarget = {
+      file,
+      load: () => {
+        loads += 1;
+        return jsonFormat.parse(fs.readFileSync(file.filePath, 'utf8'), file.code, OPTIONS);
+      }
+    };
+    return { target, loads: () => loads, read: () => fs.readFileSync(file.filePath, 'utf8') };
+  };
+
+  const set = (key: string, value: string) => (document: LocaleDocument) => {
+    document.set(key, value);
+    return true;
+  };
+
+  test('merges edits that arrive together into one write', async () => {
+    const queue = createWriteQueue(5);
+    const { target, loads, read } = createTarget('de.json');
+
+    await Promise.all([
+      queue.enqueue(target, set('a', '1')),
+      queue.enqueue(target, set('b', '2')),
+      queue.enqueue(target, set('a', '3'))
+    ]);
+
+    assert.strictEqual(loads(), 1);
+    assert.deepStrictEqual(JSON.parse(read()), { a: '3', b: '2' });
+  });
+
+  test('runs batches for the same file one after the other', async () => {
+    const queue = createWriteQueue(5);
+    const { target, loads, read } = createTarget('de.json');
+
+    const first = queue.enqueue(target, set('a', '1'));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const second = queue.enqueue(target, document => {
+      // The second batch loads what the first one wrote.
+      assert.strictEqual(document.values().a, '1');
+      document.set('a', '2');
+      return true;
+    });
+    await Promise.all([first, second]);
+
+    assert.strictEqual(loads(), 2);
+    assert.deepStrictEqual(JSON.parse(read()), { a: '2' });
+  });
+
+  test('skips the write when no edit changed the document', async () => {
+    const queue = createWriteQueue(5);
+    const { target, read } = createTarget('de.json', '{ "a": "1" }');
+
+    await queue.enqueue(target, () => false);
+
+    assert.strictEqual(read(), '{ "a": "1" }');
+  });
+
+  test('keeps the original file and no temporary file when serializing fails', async () => {
+    const queue = createWriteQueue(5);
+    const { target, read } = createTarget('de.json', '{\n  "a": "1"\n}\n');
+    const failing: LocaleTarget = {
+      file: target.file,
+      load: () => ({
+        ...target.load(),
+        serialize: () => {
+          throw new Error('serialize failed');
+        }
+      })
+    };
+
+    await assert.rejects(queue.enqueue(failing, set('a', '2')), /serialize failed/);
+
+    assert.strictEqual(read(), '{\n  "a": "1"\n}\n');
+    assert.deepStrictEqual(fs.readdirSync(dir), ['de.json']);
+  });
+
+  test('removes the temporary file when the rename fails and keeps writing later batches', async () => {
+    const queue = createWriteQueue(5);
+    // A non-empty directory in place of the file makes the rename fail.
+    const blocked = createTarget('fr.json', null);
+    fs.mkdirSync(blocked.target.file.filePath);
+    fs.writeFileSync(path.join(blocked.target.file.filePath, 'keep'), '', 'utf8');
+    const blockedTarget: LocaleTarget = { ...blocked.target, load: () => jsonFormat.create('fr', OPTIONS) };
+
+    await assert.rejects(queue.enqueue(blockedTarget, set('a', '1')));
+    assert.deepStrictEqual(fs.readdirSync(dir), ['fr.json']);
+
+    fs.rmSync(blocked.target.file.filePath, { recursive: true });
+    fs.writeFileSync(blocked.target.file.filePath, '{}\n', 'utf8');
+    await queue.enqueue(blocked.target, set('a', '2'));
+    assert.deepStrictEqual(JSON.parse(blocked.read()), { a: '2' });
+  });
+});
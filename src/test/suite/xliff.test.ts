@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { XliffDocument, XliffVersion, buildXliff, parseXliff } from '../../xliff';
+
+const documentOf = (version: XliffVersion): XliffDocument => ({
+  version,
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  units: [
+    {
+      key: 'app.title',
+      source: 'Tom & "Jerry" <b>',
+      target: 'Tom & „Jerry“ <b>',
+      notes: ['Shown in the header'],
+      exportedTarget: 'Tom & „Jerry“ <b>'
+    },
+    { key: 'app.empty', source: "It's new", target: '', notes: [], exportedTarget: '' }
+  ]
+});
+
+suite('XLIFF', () => {
+  for (const version of ['1.2', '2.0'] as const) {
+    test(`round-trips units, notes and the exported target in ${version}`, () => {
+      const document = documentOf(version);
+
+      assert.deepStrictEqual(parseXliff(buildXliff(document)), document);
+    });
+  }
+
+  test('writes 1.2 trans-units with the exported target in a from note', () => {
+    const raw = buildXliff(documentOf('1.2'));
+
+    assert.ok(raw.includes('<xliff version="1.2"'));
+    assert.ok(raw.includes('source-language="en" target-language="de"'));
+    assert.ok(raw.includes('<trans-unit id="app.title" resname="app.title" xml:space="preserve">'));
+    assert.ok(raw.includes('<target state="translated">Tom &amp; „Jerry“ &lt;b&gt;</target>'));
+    assert.ok(raw.includes('<note from="exported-target">Tom &amp; „Jerry“ &lt;b&gt;</note>'));
+    assert.ok(raw.includes('<target state="needs-translation"></target>'));
+  });
+
+  test('writes 2.0 units with the exported target in a category note', () => {
+    const raw = buildXliff(documentOf('2.0'));
+
+    assert.ok(raw.includes('<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="de">'));
+    assert.ok(raw.includes('<unit id="u1" name="app.title" xml:space="preserve">'));
+    assert.ok(raw.includes('<note category="exported-target">Tom &amp; „Jerry“ &lt;b&gt;</note>'));
+    assert.ok(raw.includes('<segment state="initial">'));
+  });
+
+  test('reads files from other tools without an exported target', () => {
+    const raw = [
+      '<xliff version="1.2">',
+      '  <file source-language="en" target-language="fr">',
+      '    <body>',
+      '      <trans-unit id="save">',
+      '        <source>Save</source>',
+      '        <target><mrk mtype="seg">Enregistrer</mrk> <![CDATA[<b>&</b>]]></target>',
+      '        <note from="developer">Button</note>',
+      '      </trans-unit>',
+      '    </body>',
+      '  </file>',
+      '</xliff>'
+    ].join('\n');
+
+    assert.deepStrictEqual(parseXliff(raw), {
+      version: '1.2',
+      sourceLanguage: 'en',
+      targetLanguage: 'fr',
+      units: [{ key: 'save', source: 'Save', target: 'Enregistrer <b>&</b>', notes: ['Button'], exportedTarget: '' }]
+    });
+  });
+
+  test('joins the segments of a 2.0 unit', () => {
+    const raw = [
+      '<xliff version="2.0" srcLang="en" trgLang="de">',
+      '  <file id="f">',
+      '    <unit id="u1" name="intro">',
+      '      <segment><source>Hello. </source><target>Hallo. </target></segment>',
+      '      <segment><source>Bye.</source><target>Tschüss.</target></segment>',
+      '    </unit>',
+      '  </file>',
+      '</xliff>'
+    ].join('\n');
+
+    const [unit] = parseXliff(raw).units;
+    assert.strictEqual(unit.source, 'Hello. Bye.');
+    assert.strictEqual(unit.target, 'Hallo. Tschüss.');
+  });
+
+  test('rejects documents that are not XLIFF', () => {
+    assert.throws(() => parseXliff('<resources></resources>'), /Not an XLIFF document/);
+  });
+});
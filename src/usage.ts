@@ -0,0 +1,125 @@
+export type KeyReference = {
+  key: string;
+  index: number;
+  // Length of the key as written in the source, from `index`.
+  length: number;
+  dynamic: boolean;
+  defaultValue: string | null;
+};
+
+export type UsageIndex = {
+  keys: Set<string>;
+  prefixes: string[];
+};
+
+export const DEFAULT_USAGE_PATTERNS = [
+  "\\bt\\(\\s*['\"`]([^'\"`]+)['\"`]",
+  "i18nKey=\\{?['\"`]([^'\"`]+)['\"`]"
+];
+
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+const DEFAULT_STRING_ARGUMENT = /^\s*,\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1/;
+const DEFAULT_VALUE_OPTION = /^\s*,\s*\{[^}]*?\bdefaultValue\s*:\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1/;
+
+export function compileUsagePatterns(patterns: string[]): { patterns: RegExp[]; invalid: string[] } {
+  const compiled: RegExp[] = [];
+  const invalid: string[] = [];
+  for (const source of patterns) {
+    try {
+      // `d` records capture group offsets, see collectKeyReferences.
+      compiled.push(new RegExp(source, 'dg'));
+    } catch {
+      invalid.push(source);
+    }
+  }
+  return { patterns: compiled, invalid };
+}
+
+export function collectKeyReferences(text: string, patterns: RegExp[]): KeyReference[] {
+  const references: KeyReference[] = [];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const group = match[1] !== undefined ? 1 : 0;
+      const raw = match[group];
+      if (!raw) continue;
+      const offset = match.indices?.[group]?.[0] ?? (match.index ?? 0) + match[0].indexOf(raw);
+      const interpolation = raw.indexOf('${');
+      if (interpolation !== -1) {
+        const key = raw.slice(0, interpolation);
+        references.push({ key, index: offset, length: key.length, dynamic: true, defaultValue: null });
+        continue;
+      }
+      // t('errors.' + code) only captures the static head of the key.
+      const dynamic = raw.endsWith('.') || raw.endsWith(':');
+      const defaultValue = dynamic ? null : readDefaultValue(text, (match.index ?? 0) + match[0].length);
+      references.push({ key: raw, index: offset, length: raw.length, dynamic, defaultValue });
+    }
+  }
+  return references;
+}
+
+function readDefaultValue(text: string, end: number): string | null {
+  const rest = text.slice(end, end + 500);
+  const match = rest.match(DEFAULT_STRING_ARGUMENT) ?? rest.match(DEFAULT_VALUE_OPTION);
+  return match ? unescapeString(match[2]) : null;
+}
+
+// Decodes the escapes of a JS string literal body (without its quotes).
+export function unescapeString(value: string): string {
+  return value.replace(/\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/g, (_match, escape: string) => {
+    if (escape === 'n') return '\n';
+    if (escape === 't') return '\t';
+    if (escape === 'r') return '\r';
+    if (/^[ux]/.test(escape) && escape.length > 1) {
+      return String.fromCodePoint(parseInt(escape.slice(1).replace(/[{}]/g, ''), 16));
+    }
+    return escape;
+  });
+}
+
+export function buildUsageIndex(references: KeyReference[]): UsageIndex {
+  const keys = new Set<string>();
+  const prefixes = new Set<string>();
+  for (const reference of references) {
+    if (reference.dynamic) {
+      prefixes.add(reference.key);
+    } else {
+      keys.add(reference.key);
+    }
+  }
+  return { keys, prefixes: Array.from(prefixes) };
+}
+
+export function isKeyReferenced(index: UsageIndex, key: string): boolean {
+  if (index.keys.has(key) || index.keys.has(key.replace(PLURAL_SUFFIX, ''))) return true;
+  return index.prefixes.some(prefix => key.startsWith(prefix));
+}
+
+export function findMissingReferences(references: KeyReference[], catalogKeys: string[]): KeyReference[] {
+  const defined = new Set<string>();
+  for (const key of catalogKeys) {
+    defined.add(key);
+    defined.add(key.replace(PLURAL_SUFFIX, ''));
+  }
+  return references.filter(reference => !reference.dynamic && !defined.has(reference.key));
+}
+
+export function suggestKeyName(filePath: string, text: string): string {
+  const segments = filePath.split(/[\\/]/).filter(Boolean);
+  let name = (segments.pop() ?? '').replace(/\.[^.]+$/, '');
+  if (['index', 'page', 'route', '+page'].includes(name.toLowerCase())) {
+    name = segments.pop() ?? '';
+  }
+  const scope = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+  const words = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[a-z0-9]+/g) ?? [];
+  const leaf = words.slice(0, 4).join('_') || 'text';
+  return scope ? `${scope}.${leaf}` : leaf;
+}
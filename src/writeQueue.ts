@@ -0,0 +1,58 @@
+import { LocaleDocument, LocaleFile, writeLocaleDocument } from './formats';
+
+export type LocaleTarget = {
+  file: LocaleFile;
+  load: () => LocaleDocument;
+};
+
+// Returns true when the document changed and has to be written.
+export type LocaleEdit = (document: LocaleDocument) => boolean;
+
+type PendingBatch = {
+  target: LocaleTarget;
+  edits: LocaleEdit[];
+  done: Promise<void>;
+};
+
+export function createWriteQueue(delayMs = 25) {
+  const pending = new Map<string, PendingBatch>();
+  const chains = new Map<string, Promise<void>>();
+
+  const flush = (batch: PendingBatch) => {
+    pending.delete(batch.target.file.filePath);
+    const document = batch.target.load();
+    let changed = false;
+    for (const edit of batch.edits) {
+      changed = edit(document) || changed;
+    }
+    if (changed) {
+      writeLocaleDocument(batch.target.file, document);
+    }
+  };
+
+  const enqueue = (target: LocaleTarget, edit: LocaleEdit): Promise<void> => {
+    const filePath = target.file.filePath;
+    const open = pending.get(filePath);
+    if (open) {
+      open.edits.push(edit);
+      return open.done;
+    }
+
+    const previous = chains.get(filePath) ?? Promise.resolve();
+    const batch: PendingBatch = { target, edits: [edit], done: Promise.resolve() };
+    batch.done = previous
+      .then(() => new Promise<void>(resolve => setTimeout(resolve, delayMs)))
+      .then(() => flush(batch));
+    pending.set(filePath, batch);
+
+    const tail = batch.done.catch(() => undefined);
+    chains.set(filePath, tail);
+    tail.then(() => {
+      if (chains.get(filePath) === tail) chains.delete(filePath);
+    });
+
+    return batch.done;
+  };
+
+  return { enqueue };
+}
@@ -0,0 +1,200 @@
+export type XliffVersion = '1.2' | '2.0';
+
+export type XliffUnit = {
+  key: string;
+  source: string;
+  target: string;
+  notes: string[];
+  // Target as it was when the file was exported, so import can tell edits apart.
+  exportedTarget: string;
+};
+
+// Note marker (`from` in 1.2, `category` in 2.0) that carries the exported target.
+const EXPORTED_TARGET_NOTE = 'exported-target';
+
+export type XliffDocument = {
+  version: XliffVersion;
+  sourceLanguage: string;
+  targetLanguage: string;
+  units: XliffUnit[];
+};
+
+export function buildXliff(document: XliffDocument): string {
+  return document.version === '2.0' ? buildXliff20(document) : buildXliff12(document);
+}
+
+function buildXliff12(document: XliffDocument): string {
+  const units = document.units.map(unit => {
+    const state = unit.target ? 'translated' : 'needs-translation';
+    const lines = [
+      `      <trans-unit id="${escapeXml(unit.key)}" resname="${escapeXml(unit.key)}" xml:space="preserve">`,
+      `        <source>${escapeXml(unit.source)}</source>`,
+      `        <target state="${state}">${escapeXml(unit.target)}</target>`,
+      ...unit.notes.map(note => `        <note>${escapeXml(note)}</note>`),
+      ...(unit.exportedTarget
+        ? [`        <note from="${EXPORTED_TARGET_NOTE}">${escapeXml(unit.exportedTarget)}</note>`]
+        : []),
+      '      </trans-unit>'
+    ];
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file original="i18n" datatype="plaintext" source-language="${escapeXml(document.sourceLanguage)}" target-language="${escapeXml(document.targetLanguage)}">`,
+    '    <body>',
+    ...units,
+    '    </body>',
+    '  </file>',
+    '</xliff>',
+    ''
+  ].join('\n');
+}
+
+function buildXliff20(document: XliffDocument): string {
+  const units = document.units.map((unit, index) => {
+    const state = unit.target ? 'translated' : 'initial';
+    const notes = unit.notes.length > 0 || unit.exportedTarget
+      ? [
+          '      <notes>',
+          ...unit.notes.map(note => `        <note>${escapeXml(note)}</note>`),
+          ...(unit.exportedTarget
+            ? [`        <note category="${EXPORTED_TARGET_NOTE}">${escapeXml(unit.exportedTarget)}</note>`]
+            : []),
+          '      </notes>'
+        ]
+      : [];
+    const lines = [
+      `    <unit id="u${index + 1}" name="${escapeXml(unit.key)}" xml:space="preserve">`,
+      ...notes,
+      `      <segment state="${state}">`,
+      `        <source>${escapeXml(unit.source)}</source>`,
+      `        <target>${escapeXml(unit.target)}</target>`,
+      '      </segment>',
+      '    </unit>'
+    ];
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${escapeXml(document.sourceLanguage)}" trgLang="${escapeXml(document.targetLanguage)}">`,
+    '  <file id="i18n">',
+    ...units,
+    '  </file>',
+    '</xliff>',
+    ''
+  ].join('\n');
+}
+
+export function parseXliff(raw: string): XliffDocument {
+  const root = raw.match(/<xliff\b([^>]*)>/);
+  if (!root) {
+    throw new Error('Not an XLIFF document.');
+  }
+
+  const rootAttributes = parseAttributes(root[1]);
+  if (rootAttributes.version?.startsWith('2')) {
+    return {
+      version: '2.0',
+      sourceLanguage: rootAttributes.srcLang ?? '',
+      targetLanguage: rootAttributes.trgLang ?? '',
+      units: collectElements(raw, 'unit').map(unit => {
+        const attributes = parseAttributes(unit.attributes);
+        const segments = collectElements(unit.body, 'segment');
+        return {
+          key: attributes.name ?? attributes.id ?? '',
+          source: segments.map(segment => readElementText(segment.body, 'source')).join(''),
+          target: segments.map(segment => readElementText(segment.body, 'target')).join(''),
+          ...readNotes(unit.body, 'category')
+        };
+      })
+    };
+  }
+
+  const file = raw.match(/<file\b([^>]*)>/);
+  const fileAttributes = parseAttributes(file?.[1] ?? '');
+  return {
+    version: '1.2',
+    sourceLanguage: fileAttributes['source-language'] ?? '',
+    targetLanguage: fileAttributes['target-language'] ?? '',
+    units: collectElements(raw, 'trans-unit').map(unit => {
+      const attributes = parseAttributes(unit.attributes);
+      return {
+        key: attributes.resname ?? attributes.id ?? '',
+        source: readElementText(unit.body, 'source'),
+        target: readElementText(unit.body, 'target'),
+        ...readNotes(unit.body, 'from')
+      };
+    })
+  };
+}
+
+function collectElements(raw: string, tag: string): Array<{ attributes: string; body: string }> {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+  return Array.from(raw.matchAll(pattern), match => ({
+    attributes: match[1],
+    body: match[2] ?? ''
+  }));
+}
+
+function readNotes(raw: string, marker: string): Pick<XliffUnit, 'notes' | 'exportedTarget'> {
+  const notes: string[] = [];
+  let exportedTarget = '';
+  for (const note of collectElements(raw, 'note')) {
+    if (parseAttributes(note.attributes)[marker] === EXPORTED_TARGET_NOTE) {
+      exportedTarget = decodeText(note.body);
+    } else {
+      notes.push(decodeText(note.body));
+    }
+  }
+  return { notes, exportedTarget };
+}
+
+function readElementText(raw: string, tag: string): string {
+  const [element] = collectElements(raw, tag);
+  return element ? decodeText(element.body) : '';
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+function decodeText(raw: string): string {
+  return raw
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part => {
+      const cdata = part.match(/^<!\[CDATA\[([\s\S]*)\]\]>$/);
+      if (cdata) return cdata[1];
+      return decodeEntities(part.replace(/<\/?mrk\b[^>]*>/g, ''));
+    })
+    .join('');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_match, entity: string) => {
+    if (entity === 'amp') return '&';
+    if (entity === 'lt') return '<';
+    if (entity === 'gt') return '>';
+    if (entity === 'quot') return '"';
+    if (entity === 'apos') return "'";
+    const code = entity.startsWith('#x')
+      ? Number.parseInt(entity.slice(2), 16)
+      : Number.parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -2,12 +2,145 @@ export interface TranslationKey {
   id: string;
   key: string; // e.g., 'welcome_message'
   tags: string[];
+  plural?: PluralForms; // set on list rows that stand for an i18next plural group
+}
+
+export interface PluralForms {
+  base: string; // e.g., 'items' for items_one / items_other
+  forms: Record<string, string>; // plural category -> existing key id
 }
 
 export interface TranslationValue {
   [langCode: string]: string;
 }
 
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  hasI18n: boolean;
+}
+
+export interface CatalogInfo {
+  id: string;
+  name: string;
+}
+
+export interface SharedKey {
+  key: string;
+  sources: Record<string, string>; // catalog id -> source text
+}
+
+export interface CatalogDelta {
+  added: string[];
+  removed: string[];
+  updated: Array<{ key: string; lang: string; value: string }>;
+}
+
+export interface ExternalConflict {
+  key: string;
+  lang: string;
+  local: string;
+  incoming: string;
+}
+
+export interface FileError {
+  filePath: string;
+  file: string;
+  lang: string;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export type HistoryKind =
+  | 'updateValue'
+  | 'addKey'
+  | 'deleteKey'
+  | 'renameKey'
+  | 'duplicateKey'
+  | 'translateAll'
+  | 'quickAdd'
+  | 'bulkDelete'
+  | 'bulkMove'
+  | 'bulkClear'
+  | 'bulkTranslate'
+  | 'qaFix'
+  | 'importXliff';
+
+export interface HistoryGroup {
+  id: string;
+  kind: HistoryKind;
+}
+
+export interface HistoryChange {
+  key: string;
+  lang: string;
+  before: string | null; // null when the key did not exist in that language
+  after: string | null;
+}
+
+export interface HistoryEntry {
+  id: number;
+  kind: HistoryKind;
+  i18nDir: string;
+  timestamp: number;
+  changes: HistoryChange[];
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  position: number; // entries at or after this index have been undone
+}
+
+export type BulkAction =
+  | { kind: 'delete' }
+  | { kind: 'move'; prefix: string }
+  | { kind: 'clear'; lang: string }
+  | { kind: 'review' }
+  | { kind: 'export' };
+
+export type ReviewState = Record<string, string[]>; // key -> reviewed language codes
+
+export type NeedsReviewState = Record<string, Record<string, string>>; // key -> language -> rejected AI output
+
+export type QaRuleId =
+  | 'placeholders'
+  | 'whitespace'
+  | 'endPunctuation'
+  | 'identical'
+  | 'lengthRatio'
+  | 'doubleSpaces'
+  | 'capitalization'
+  | 'forbiddenTerms';
+
+export interface QaLanguageSettings {
+  rules?: Partial<Record<QaRuleId, boolean>>;
+  maxLengthRatio?: number;
+  forbiddenTerms?: string[];
+}
+
+// `*` applies to every language; a language code overrides it (forbidden terms add up).
+export type QaRules = Record<string, QaLanguageSettings>;
+
+export interface MissingKey {
+  key: string;
+  defaultValue: string | null;
+  filePath: string;
+  file: string;
+  line: number;
+  column: number;
+  references: number;
+}
+
+export interface UsageScan {
+  catalog: string;
+  unusedKeys: string[];
+  missingKeys: MissingKey[];
+  scannedFiles: number;
+  dynamicPrefixes: string[];
+  scannedAt: string;
+}
+
 export interface Language {
   code: string;
   name: string;
@@ -40,7 +173,9 @@ export interface TranslateAllEstimate {
   cost: number | null;
 }
 
-export type ViewState = 'dashboard' | 'list' | 'editor' | 'settings';
+export type Translator = (key: string, vars?: Record<string, string | number>) => string;
+
+export type ViewState = 'dashboard' | 'list' | 'editor' | 'settings' | 'shared' | 'history' | 'qa';
 
 export interface EditorState {
   keyId: string | null;